@@ -0,0 +1,106 @@
+// Copyright 2022 Joshua Honig. All rights reserved.
+// Use of this source code is governed by a MIT
+// license that can be found in the LICENSE file.
+
+import { Row } from '@sabl/db-api';
+
+/**
+ * The cursor API of a {@link Rows}, with a row of type `T`.
+ * Implemented by {@link Rows} itself as well as by
+ * {@link DerivedRows}.
+ */
+export interface RowCursor<T> {
+  readonly row: T;
+  next(): Promise<boolean>;
+  close(): Promise<void>;
+}
+
+/** Options for {@link toArray} */
+export interface ToArrayOptions {
+  /**
+   * Maximum number of rows to read. If the rows contain more, the
+   * rows are closed, which cancels the underlying query, and an
+   * error is thrown unless `truncate` is true.
+   */
+  maxRows?: number;
+
+  /**
+   * If true, return the first `maxRows` rows instead of
+   * throwing if the rows contain more than `maxRows`
+   */
+  truncate?: boolean;
+}
+
+/** Read all rows into an array, then close the rows */
+export async function toArray<T = Row>(
+  rows: RowCursor<T>,
+  options?: ToArrayOptions
+): Promise<T[]> {
+  const maxRows = options?.maxRows;
+  if (maxRows != null && !(maxRows >= 0)) {
+    throw new Error('maxRows cannot be negative');
+  }
+
+  const out: T[] = [];
+  try {
+    while (await rows.next()) {
+      if (maxRows != null && out.length >= maxRows) {
+        if (options?.truncate) {
+          break;
+        }
+        throw new Error(`Query returned more than ${maxRows} rows`);
+      }
+      out.push(rows.row);
+    }
+  } finally {
+    await rows.close();
+  }
+  return out;
+}
+
+/**
+ * Read the first row, if any, then close the rows,
+ * which cancels the underlying query if more rows remain
+ */
+export async function first<T = Row>(rows: RowCursor<T>): Promise<T | null> {
+  try {
+    if (await rows.next()) {
+      return rows.row;
+    }
+    return null;
+  } finally {
+    await rows.close();
+  }
+}
+
+/**
+ * Read exactly one row, then close the rows. Throws
+ * if there are no rows or more than one row.
+ */
+export async function single<T = Row>(rows: RowCursor<T>): Promise<T> {
+  try {
+    if (!(await rows.next())) {
+      throw new Error('Query returned no rows');
+    }
+    const row = rows.row;
+    if (await rows.next()) {
+      throw new Error('Query returned more than one row');
+    }
+    return row;
+  } finally {
+    await rows.close();
+  }
+}
+
+/**
+ * Read the value of the first column of exactly one row, then
+ * close the rows. Throws if there are no rows, more than
+ * one row, or no columns.
+ */
+export async function scalar<T = unknown>(rows: RowCursor<Row>): Promise<T> {
+  const values = Row.toArray(await single(rows));
+  if (values.length == 0) {
+    throw new Error('Query returned no columns');
+  }
+  return <T>values[0];
+}
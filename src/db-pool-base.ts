@@ -0,0 +1,200 @@
+// Copyright 2022 Joshua Honig. All rights reserved.
+// Use of this source code is governed by a MIT
+// license that can be found in the LICENSE file.
+
+import { CallbackPromise, createPool, promise } from '@sabl/async';
+import { StorageKind, StorageMode } from '@sabl/storage-pool';
+import { DbQueue } from './db-queue';
+import { RowStream } from './row-stream';
+
+// Type-only imports:
+import type { AsyncPool, PoolOptions } from '@sabl/async';
+import type { IContext } from '@sabl/context';
+import type { TxnOptions } from '@sabl/txn';
+import type { DbConn, DbPool, ParamValue, Result, Row } from '@sabl/db-api';
+import type { DriverConn, DriverRows, DriverTxn } from './driver';
+
+/**
+ * Base implementation of {@link DbPool} which uses an {@link AsyncPool}
+ * from `@sabl/async` to manage a pool of {@link DriverConn}s.
+ *
+ * Implementers only need to provide `createConn` and `destroyConn`.
+ * Connections returned from `conn()` are wrapped in a {@link DbQueue},
+ * and are returned to the pool when the queue is closed and drained.
+ * The `exec`, `queryRow`, `query`, and `beginTxn` methods borrow a
+ * connection for the duration of a single operation, including until
+ * any returned rows or transaction emit `'complete'`.
+ *
+ * `close()` prevents further connections from being borrowed, waits
+ * for all borrowed connections to be returned, and then closes the
+ * underlying pool.
+ */
+export abstract class DbPoolBase implements DbPool {
+  readonly #pool: AsyncPool<DriverConn>;
+
+  #closed = false;
+  #borrowed = 0;
+  #closing: Promise<void> | null = null;
+  #waitDrain: CallbackPromise<void> | null = null;
+
+  constructor(options?: PoolOptions) {
+    this.#pool = createPool<DriverConn>(
+      {
+        create: (ctx: IContext) => this.createConn(ctx),
+        destroy: (con: DriverConn) => this.destroyConn(con),
+      },
+      options
+    );
+  }
+
+  /** Open a new connection to the underlying database */
+  protected abstract createConn(ctx: IContext): Promise<DriverConn>;
+
+  /** Close a connection to the underlying database */
+  protected abstract destroyConn(con: DriverConn): Promise<void>;
+
+  get mode(): StorageMode {
+    return StorageMode.pool;
+  }
+
+  get kind(): string {
+    return StorageKind.rdb;
+  }
+
+  /** Check the number of connections currently borrowed from a DbPoolBase */
+  static borrowed(pool: DbPool): number {
+    if (pool instanceof DbPoolBase) {
+      return pool.#borrowed;
+    }
+    throw new Error('pool is not a DbPoolBase');
+  }
+
+  async conn(ctx: IContext): Promise<DbConn> {
+    const con = await this.#borrow(ctx);
+    const q = new DbQueue(con);
+    q.on('complete', () => this.#release(con));
+    return q;
+  }
+
+  async exec(
+    ctx: IContext,
+    sql: string,
+    ...params: ParamValue[]
+  ): Promise<Result> {
+    const con = await this.#borrow(ctx);
+    try {
+      return await con.exec(ctx, sql, ...params);
+    } finally {
+      this.#release(con);
+    }
+  }
+
+  async queryRow(
+    ctx: IContext,
+    sql: string,
+    ...params: ParamValue[]
+  ): Promise<Row | null> {
+    const con = await this.#borrow(ctx);
+    try {
+      return await con.queryRow(ctx, sql, ...params);
+    } finally {
+      this.#release(con);
+    }
+  }
+
+  async query(
+    ctx: IContext,
+    sql: string,
+    ...params: ParamValue[]
+  ): Promise<DriverRows> {
+    const con = await this.#borrow(ctx);
+    let rows: DriverRows;
+    try {
+      rows = await con.query(ctx, sql, ...params);
+    } catch (err) {
+      this.#release(con);
+      throw err;
+    }
+
+    if (rows instanceof RowStream && RowStream.isDone(rows)) {
+      // Already signaled 'complete'
+      this.#release(con);
+    } else {
+      rows.on('complete', this.#releaseOnce(con));
+    }
+    return rows;
+  }
+
+  async beginTxn(ctx: IContext, opts?: TxnOptions): Promise<DriverTxn> {
+    const con = await this.#borrow(ctx);
+    let txn: DriverTxn;
+    try {
+      txn = await con.beginTxn(ctx, opts);
+    } catch (err) {
+      this.#release(con);
+      throw err;
+    }
+
+    txn.on('complete', this.#releaseOnce(con));
+    return txn;
+  }
+
+  close(): Promise<void> {
+    if (this.#closing == null) {
+      this.#closed = true;
+      this.#closing = this.#close();
+    }
+    return this.#closing;
+  }
+
+  async #close(): Promise<void> {
+    if (this.#borrowed > 0) {
+      // Wait for all borrowed connections to be returned
+      await (this.#waitDrain = promise<void>());
+    }
+
+    await this.#pool.close();
+  }
+
+  async #borrow(ctx: IContext): Promise<DriverConn> {
+    if (this.#closed) {
+      throw new Error('Pool is closed');
+    }
+    this.#borrowed++;
+    try {
+      return await this.#pool.get(ctx);
+    } catch (err) {
+      this.#returned();
+      throw err;
+    }
+  }
+
+  #release(con: DriverConn): void {
+    this.#pool.release(con);
+    this.#returned();
+  }
+
+  // Returns a 'complete' listener which releases the connection
+  // only once, even if the source emits 'complete' more than once
+  #releaseOnce(con: DriverConn): () => void {
+    let released = false;
+    return () => {
+      if (released) {
+        return;
+      }
+      released = true;
+      this.#release(con);
+    };
+  }
+
+  #returned(): void {
+    this.#borrowed--;
+    if (this.#borrowed === 0) {
+      const wd = this.#waitDrain;
+      if (wd != null) {
+        this.#waitDrain = null;
+        wd.resolve();
+      }
+    }
+  }
+}
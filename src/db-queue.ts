@@ -0,0 +1,255 @@
+// Copyright 2022 Joshua Honig. All rights reserved.
+// Use of this source code is governed by a MIT
+// license that can be found in the LICENSE file.
+
+import EventEmitter from 'events';
+import { CallbackPromise, promise } from '@sabl/async';
+import { CanceledError } from '@sabl/context';
+import { StorageKind, StorageMode } from '@sabl/storage-pool';
+import { RowStream } from './row-stream';
+
+// Type-only imports:
+import type { CanceledCallback, IContext } from '@sabl/context';
+import type { TxnOptions } from '@sabl/txn';
+import type { DbConn, ParamValue, Result, Row } from '@sabl/db-api';
+import type {
+  CompleteEmitter,
+  DriverConn,
+  DriverRows,
+  DriverTxn,
+} from './driver';
+
+/** An operation waiting in a {@link DbQueue} */
+interface QueueItem {
+  readonly ctx: IContext;
+  readonly run: () => Promise<[unknown, CompleteEmitter | null]>;
+  readonly resolve: (value: any) => void;
+  readonly reject: (reason: unknown) => void;
+  onCancel: CanceledCallback | null;
+}
+
+/**
+ * An implementation of {@link DbConn} which queues all calls to
+ * `exec`, `queryRow`, `query`, and `beginTxn` so that they are
+ * executed in order on the underlying {@link DriverConn}.
+ *
+ * Operations which return a {@link DriverRows} or a {@link DriverTxn}
+ * hold the queue until the rows or transaction emit `'complete'`.
+ * An operation whose context is canceled while it is still waiting
+ * in the queue is removed from the queue and rejected.
+ *
+ * Calling `close()` prevents any further operations from being
+ * queued, rolls back a transaction which is still holding the queue,
+ * and waits for all remaining queued operations to finish. The queue
+ * then emits `'complete'` to signal that the underlying
+ * {@link DriverConn} can be released.
+ */
+export class DbQueue extends EventEmitter implements DbConn, CompleteEmitter {
+  readonly #con: DriverConn;
+  readonly #queue: QueueItem[] = [];
+
+  #active: QueueItem | null = null;
+  #txn: DriverTxn | null = null;
+  #closed = false;
+  #complete = false;
+  #waitClose: CallbackPromise<void> | null = null;
+
+  /** Check whether a DbQueue is closed */
+  static isClosed(q: DbConn): boolean {
+    if (q instanceof DbQueue) {
+      return q.#closed;
+    }
+    throw new Error('conn is not a DbQueue');
+  }
+
+  /** Check the number of operations waiting in a DbQueue */
+  static size(q: DbConn): number {
+    if (q instanceof DbQueue) {
+      return q.#queue.length;
+    }
+    throw new Error('conn is not a DbQueue');
+  }
+
+  constructor(con: DriverConn) {
+    super();
+    this.#con = con;
+  }
+
+  get mode(): StorageMode {
+    return StorageMode.conn;
+  }
+
+  get kind(): string {
+    return StorageKind.rdb;
+  }
+
+  exec(ctx: IContext, sql: string, ...params: ParamValue[]): Promise<Result> {
+    return this.#enqueue(ctx, async () => [
+      await this.#con.exec(ctx, sql, ...params),
+      null,
+    ]);
+  }
+
+  queryRow(
+    ctx: IContext,
+    sql: string,
+    ...params: ParamValue[]
+  ): Promise<Row | null> {
+    return this.#enqueue(ctx, async () => [
+      await this.#con.queryRow(ctx, sql, ...params),
+      null,
+    ]);
+  }
+
+  query(
+    ctx: IContext,
+    sql: string,
+    ...params: ParamValue[]
+  ): Promise<DriverRows> {
+    return this.#enqueue(ctx, async () => {
+      const rows = await this.#con.query(ctx, sql, ...params);
+      if (rows instanceof RowStream && RowStream.isDone(rows)) {
+        // Already signaled 'complete'. Nothing to wait for
+        return [rows, null];
+      }
+      return [rows, rows];
+    });
+  }
+
+  beginTxn(ctx: IContext, opts?: TxnOptions): Promise<DriverTxn> {
+    return this.#enqueue(ctx, async () => {
+      const txn = await this.#con.beginTxn(ctx, opts);
+      this.#txn = txn;
+      return [txn, txn];
+    });
+  }
+
+  async close(): Promise<void> {
+    if (this.#closed) {
+      if (this.#complete) {
+        return;
+      }
+      return this.#waitClose!;
+    }
+    this.#closed = true;
+
+    const waitClose = (this.#waitClose = promise());
+
+    const txn = this.#txn;
+    if (txn != null) {
+      // A transaction is still holding the queue.
+      // Roll it back so the queue can proceed
+      try {
+        await txn.rollback();
+      } catch {
+        // Transaction may have been resolved concurrently.
+        // Its 'complete' event will still release the queue
+      }
+    }
+
+    this.#next();
+    return waitClose;
+  }
+
+  #enqueue<T>(
+    ctx: IContext,
+    run: () => Promise<[T, CompleteEmitter | null]>
+  ): Promise<T> {
+    if (this.#closed) {
+      return Promise.reject(new Error('Connection is closed'));
+    }
+
+    const clr = ctx.canceler;
+    if (clr?.canceled) {
+      return Promise.reject(new CanceledError());
+    }
+
+    const p = promise<T>();
+    const item: QueueItem = {
+      ctx,
+      run,
+      resolve: p.resolve,
+      reject: p.reject,
+      onCancel: null,
+    };
+
+    if (clr != null) {
+      const onCancel = (err: Error) => {
+        const ix = this.#queue.indexOf(item);
+        if (ix >= 0) {
+          // Still waiting. Remove from queue
+          this.#queue.splice(ix, 1);
+          item.onCancel = null;
+          clr.off(onCancel);
+          p.reject(err);
+        }
+      };
+      clr.onCancel((item.onCancel = onCancel));
+    }
+
+    this.#queue.push(item);
+    this.#next();
+    return p;
+  }
+
+  #next(): void {
+    if (this.#active != null) {
+      // Busy. Will proceed when active item is done
+      return;
+    }
+
+    const item = this.#queue.shift();
+    if (item == null) {
+      if (this.#closed && !this.#complete) {
+        this.#finish();
+      }
+      return;
+    }
+
+    this.#active = item;
+    if (item.onCancel != null) {
+      item.ctx.canceler!.off(item.onCancel);
+      item.onCancel = null;
+    }
+
+    item.run().then(
+      ([result, hold]) => {
+        if (hold != null) {
+          const onComplete = () => {
+            hold.off('complete', onComplete);
+            if (this.#txn === hold) {
+              this.#txn = null;
+            }
+            this.#active = null;
+            this.#next();
+          };
+          hold.on('complete', onComplete);
+
+          const txn = this.#txn;
+          if (this.#closed && txn != null && txn === hold) {
+            // Queue was closed while the transaction
+            // was starting. Roll it back immediately
+            txn.rollback().catch(() => undefined);
+          }
+        } else {
+          this.#active = null;
+        }
+        item.resolve(result);
+        this.#next();
+      },
+      (err) => {
+        this.#active = null;
+        item.reject(err);
+        this.#next();
+      }
+    );
+  }
+
+  #finish(): void {
+    this.#complete = true;
+    const wc = this.#waitClose;
+    this.#waitClose = null;
+    this.emit('complete');
+    wc?.resolve();
+  }
+}
@@ -0,0 +1,325 @@
+// Copyright 2022 Joshua Honig. All rights reserved.
+// Use of this source code is governed by a MIT
+// license that can be found in the LICENSE file.
+
+import EventEmitter from 'events';
+import { asError, RowStream } from './row-stream';
+
+// Type-only imports:
+import type { ColumnInfo, Row, Rows } from '@sabl/db-api';
+import type { DriverRows } from './driver';
+
+/** Result of pulling the next value from a source */
+type PullResult<T> = { done: true } | { done: false; value: T };
+
+/**
+ * The parts of a {@link Rows} which a {@link DerivedRows}
+ * needs from its source, other than `next()` and `row`
+ */
+interface RowsSource {
+  readonly columns: string[];
+  readonly columnTypes: ColumnInfo[];
+  readonly err: Error | null;
+  close(): Promise<void>;
+  on?(type: 'complete', fn: () => void): unknown;
+}
+
+/** A function applied to each value of a {@link DerivedRows} */
+export type RowsMapper<T, U> = (value: T, index: number) => U | Promise<U>;
+
+/**
+ * A {@link Rows} derived from another source by operators such as
+ * `map`, `filter`, `take`, `skip`, `batch`, `mapTo`, and `validate`. Operators
+ * return a new {@link DerivedRows} and can be chained. A
+ * `DerivedRows<Row>` is itself a {@link DriverRows}, so it can be
+ * handed back to any code that accepts a {@link Rows}.
+ *
+ * Closing a derived rows closes its source, which in the case of a
+ * {@link RowStream} cancels the underlying query. Likewise, `take`
+ * closes the source as soon as enough rows have been read. The
+ * `'complete'` event is emitted when the source emits `'complete'`,
+ * or when the rows are closed if the source does not emit events.
+ */
+export class DerivedRows<T = Row> extends EventEmitter {
+  readonly #source: RowsSource;
+  readonly #pull: () => Promise<PullResult<T>>;
+  readonly #columns?: ColumnInfo[];
+
+  #value: T | undefined;
+  #hasValue = false;
+  #err: Error | null = null;
+  #closed = false;
+  #completed = false;
+  #pulling = false;
+
+  /** Create a {@link DerivedRows} which reads from `rows` */
+  static from(rows: Rows): DerivedRows<Row> {
+    return new DerivedRows<Row>(rows, async () => {
+      if (await rows.next()) {
+        return { done: false, value: rows.row };
+      }
+      return { done: true };
+    });
+  }
+
+  /** Check whether a DerivedRows has emitted `'complete'` */
+  static isComplete(rows: DerivedRows<unknown>): boolean {
+    if (rows instanceof DerivedRows) {
+      return rows.#completed;
+    }
+    throw new Error('rows is not a DerivedRows');
+  }
+
+  private constructor(
+    source: RowsSource,
+    pull: () => Promise<PullResult<T>>,
+    columns?: ColumnInfo[]
+  ) {
+    super();
+    this.#source = source;
+    this.#pull = pull;
+    this.#columns = columns;
+
+    if (typeof source.on === 'function') {
+      if (sourceComplete(source)) {
+        // Allow listeners to be attached first
+        queueMicrotask(() => this.#complete());
+      } else {
+        source.on('complete', () => this.#complete());
+      }
+    }
+  }
+
+  #complete() {
+    if (this.#completed) {
+      return;
+    }
+    this.#completed = true;
+    this.emit('complete');
+  }
+
+  #derive<U>(
+    pull: () => Promise<PullResult<U>>,
+    columns?: ColumnInfo[]
+  ): DerivedRows<U> {
+    return new DerivedRows<U>(this, pull, columns || this.#columns);
+  }
+
+  get columns(): string[] {
+    if (this.#columns != null) {
+      return this.#columns.map((c) => c.name);
+    }
+    return this.#source.columns;
+  }
+
+  get columnTypes(): ColumnInfo[] {
+    if (this.#columns != null) {
+      return this.#columns.slice();
+    }
+    return this.#source.columnTypes;
+  }
+
+  get err(): Error | null {
+    return this.#err || this.#source.err;
+  }
+
+  get row(): T {
+    if (!this.#hasValue) {
+      throw new Error('No row loaded. Call next()');
+    }
+    return this.#value!;
+  }
+
+  async next(): Promise<boolean> {
+    if (this.#closed) {
+      return false;
+    }
+    if (this.#pulling) {
+      throw new Error('Existing next() call has not yet resolved');
+    }
+
+    let result: PullResult<T>;
+    this.#pulling = true;
+    try {
+      result = await this.#pull();
+    } catch (err) {
+      this.#err = asError(err);
+      await this.close();
+      throw err;
+    } finally {
+      this.#pulling = false;
+    }
+
+    if (result.done) {
+      // No more rows. Automatically close
+      // the rows per Rows contract
+      await this.close();
+      return false;
+    }
+
+    this.#value = result.value;
+    this.#hasValue = true;
+    return true;
+  }
+
+  async close(): Promise<void> {
+    if (this.#closed) {
+      return;
+    }
+    this.#closed = true;
+    try {
+      await this.#source.close();
+    } finally {
+      if (typeof this.#source.on !== 'function') {
+        this.#complete();
+      }
+    }
+  }
+
+  async *[Symbol.asyncIterator](): AsyncIterator<T, any, undefined> {
+    try {
+      while (await this.next()) {
+        yield this.row;
+      }
+    } finally {
+      await this.close();
+    }
+  }
+
+  /**
+   * Replace each row with the result of `fn`. Column info is
+   * unchanged, so `fn` should return a value with the same shape.
+   */
+  map(fn: RowsMapper<T, T>): DerivedRows<T> {
+    return this.mapTo(fn);
+  }
+
+  /**
+   * Replace each row with the result of `fn`, which may be a value
+   * of any type. Column info is inherited from the source unless
+   * `columns` is provided.
+   */
+  mapTo<U>(fn: RowsMapper<T, U>, columns?: ColumnInfo[]): DerivedRows<U> {
+    let index = 0;
+    return this.#derive(async (): Promise<PullResult<U>> => {
+      if (!(await this.next())) {
+        return { done: true };
+      }
+      return { done: false, value: await fn(this.row, index++) };
+    }, columns);
+  }
+
+  /**
+   * Check the column info with `fn` once the first call to `next()`
+   * on the source has resolved, when column info is available, even
+   * if there are no rows. If `fn` throws, the rows are closed and
+   * `next()` rejects with the error.
+   */
+  validate(fn: (columnTypes: ColumnInfo[]) => void): DerivedRows<T> {
+    let checked = false;
+    return this.#derive(async (): Promise<PullResult<T>> => {
+      const more = await this.next();
+      if (!checked) {
+        checked = true;
+        fn(this.columnTypes);
+      }
+      return more ? { done: false, value: this.row } : { done: true };
+    });
+  }
+
+  /** Include only rows for which `fn` returns true */
+  filter(fn: RowsMapper<T, boolean>): DerivedRows<T> {
+    let index = 0;
+    return this.#derive(async (): Promise<PullResult<T>> => {
+      while (await this.next()) {
+        if (await fn(this.row, index++)) {
+          return { done: false, value: this.row };
+        }
+      }
+      return { done: true };
+    });
+  }
+
+  /**
+   * Include only the first `count` rows. The source
+   * is closed as soon as `count` rows have been read.
+   */
+  take(count: number): DerivedRows<T> {
+    checkCount('take', count);
+    let taken = 0;
+    return this.#derive(async (): Promise<PullResult<T>> => {
+      if (taken >= count || !(await this.next())) {
+        return { done: true };
+      }
+      const value = this.row;
+      if (++taken >= count) {
+        // Stop the underlying query without
+        // waiting for another call to next()
+        await this.close();
+      }
+      return { done: false, value };
+    });
+  }
+
+  /** Skip the first `count` rows */
+  skip(count: number): DerivedRows<T> {
+    checkCount('skip', count);
+    let skipped = 0;
+    return this.#derive(async (): Promise<PullResult<T>> => {
+      while (skipped < count) {
+        if (!(await this.next())) {
+          return { done: true };
+        }
+        skipped++;
+      }
+      if (!(await this.next())) {
+        return { done: true };
+      }
+      return { done: false, value: this.row };
+    });
+  }
+
+  /**
+   * Group rows into arrays of `size` rows. The
+   * last batch may contain fewer than `size` rows.
+   */
+  batch(size: number): DerivedRows<T[]> {
+    checkCount('batch', size);
+    if (size < 1) {
+      throw new Error('batch size must be at least 1');
+    }
+    return this.#derive(async (): Promise<PullResult<T[]>> => {
+      const batch: T[] = [];
+      while (batch.length < size && (await this.next())) {
+        batch.push(this.row);
+      }
+      if (batch.length == 0) {
+        return { done: true };
+      }
+      return { done: false, value: batch };
+    });
+  }
+}
+
+function checkCount(op: string, count: number) {
+  if (!Number.isInteger(count) || count < 0) {
+    throw new Error(`${op} count must be a non-negative integer`);
+  }
+}
+
+function sourceComplete(source: RowsSource): boolean {
+  if (source instanceof RowStream) {
+    return RowStream.isDone(source);
+  }
+  if (source instanceof DerivedRows) {
+    return DerivedRows.isComplete(source);
+  }
+  return false;
+}
+
+// DerivedRows cannot declare `implements DriverRows` because it
+// is generic over its row type. This fails to compile if a
+// DerivedRows<Row> no longer satisfies DriverRows
+type AssertDriverRows<T extends DriverRows> = T;
+// eslint-disable-next-line @typescript-eslint/no-unused-vars
+type DerivedDriverRows = AssertDriverRows<DerivedRows<Row>>;
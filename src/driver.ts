@@ -15,6 +15,34 @@ import type {
   PlainObject,
 } from '@sabl/db-api';
 
+/**
+ * A {@link ColumnInfo} with optional extended metadata. Drivers
+ * may provide any of these properties to {@link RowController}
+ * and they are passed through unchanged by `columnTypes`.
+ */
+export interface DriverColumnInfo extends ColumnInfo {
+  /** Maximum length of character or binary columns */
+  length?: number;
+
+  /** Total number of digits of numeric columns */
+  precision?: number;
+
+  /** Number of digits after the decimal point of numeric columns */
+  scale?: number;
+
+  /** Name of the table from which the column was selected */
+  sourceTable?: string;
+
+  /** Name of the column in the source table, if aliased */
+  sourceColumn?: string;
+
+  /** Whether the column is part of the source table's primary key */
+  primaryKey?: boolean;
+
+  /** The driver's native identifier for the column type */
+  nativeTypeId?: number | string;
+}
+
 /** An {@link EventEmitter} that supports a `'complete'` event */
 export interface CompleteEmitter {
   /**
@@ -37,7 +65,14 @@ export interface DriverTxn extends DbTxn, CompleteEmitter {}
  * A {@link Rows} which emits a `'complete'` event when
  * the underlying cursor has been closed
  */
-export interface DriverRows extends Rows, CompleteEmitter {}
+export interface DriverRows extends Rows, CompleteEmitter {
+  /**
+   * Advance to the next result set, if the underlying
+   * query returned more than one. Resolves to false
+   * if there are no more result sets.
+   */
+  nextResultSet?(): Promise<boolean>;
+}
 
 /**
  * A {@link DbConn} which returns a {@link DriverRows}
@@ -64,6 +99,12 @@ export interface DriverConn {
   beginTxn(ctx: IContext, opts?: TxnOptions): Promise<DriverTxn>;
 }
 
+/** Options for inferring columns from several sample rows */
+export interface ParseColsOptions {
+  /** Maximum number of objects to examine. Defaults to 100 */
+  sampleSize?: number;
+}
+
 /**
  * Derive an array of ColumnInfo from a plain object,
  * using `Object.keys`, and `typeof`. All columns are assumed
@@ -71,7 +112,39 @@ export interface DriverConn {
  * If a property value is null, its type name will
  * be 'unknown'
  */
-export function parseCols(obj: PlainObject): ColumnInfo[] {
+export function parseCols(obj: PlainObject): ColumnInfo[];
+
+/**
+ * Infer an array of ColumnInfo from the first `sampleSize`
+ * objects of a result. Columns are listed in the order their
+ * keys are first seen. A column is nullable if it is null or
+ * missing in any sample. Type names are:
+ *
+ * - `'string'`, `'number'`, `'boolean'`, or `'bigint'`
+ * - `'datetime'` for `Date` values
+ * - `'binary'` for `Uint8Array` values, including `Buffer`
+ * - `'json'` for arrays and other objects
+ * - `'unknown'` if every sample is null
+ *
+ * If samples have different types, `number` and `bigint` widen
+ * to `bigint` if every `number` sample is an integer, or to
+ * `number` otherwise. Any mix including `json` widens to `json`,
+ * and any other mix widens to `string`.
+ */
+export function parseCols(
+  objs: PlainObject[],
+  options?: ParseColsOptions
+): ColumnInfo[];
+
+export function parseCols(
+  objOrObjs: PlainObject | PlainObject[],
+  options?: ParseColsOptions
+): ColumnInfo[] {
+  if (Array.isArray(objOrObjs)) {
+    return inferCols(objOrObjs, options?.sampleSize ?? 100);
+  }
+
+  const obj = objOrObjs;
   const cols: ColumnInfo[] = [];
   for (const k of Object.keys(obj)) {
     const v = obj[k];
@@ -92,3 +165,86 @@ export function parseCols(obj: PlainObject): ColumnInfo[] {
 
   return cols;
 }
+
+/** Classify a single non-null sample value */
+function sampleType(v: unknown): string {
+  const type = typeof v;
+  switch (type) {
+    case 'string':
+    case 'number':
+    case 'boolean':
+    case 'bigint':
+      return type;
+  }
+  if (v instanceof Date) {
+    return 'datetime';
+  }
+  if (v instanceof Uint8Array) {
+    return 'binary';
+  }
+  return 'json';
+}
+
+/** Combine the type seen so far with the type of another sample */
+function widenType(a: string | null, b: string): string {
+  if (a == null || a === b) {
+    return b;
+  }
+  if (
+    (a === 'number' || a === 'bigint') &&
+    (b === 'number' || b === 'bigint')
+  ) {
+    return 'bigint';
+  }
+  if (a === 'json' || b === 'json') {
+    return 'json';
+  }
+  return 'string';
+}
+
+function inferCols(objs: PlainObject[], sampleSize: number): ColumnInfo[] {
+  if (!(sampleSize >= 1)) {
+    throw new Error('sampleSize must be at least 1');
+  }
+
+  const cols = new Map<
+    string,
+    { type: string | null; nullable: boolean; fractional: boolean }
+  >();
+  const samples = objs.slice(0, sampleSize);
+  samples.forEach((obj, i) => {
+    for (const k of Object.keys(obj)) {
+      let col = cols.get(k);
+      if (col == null) {
+        // Missing from earlier samples
+        col = { type: null, nullable: i > 0, fractional: false };
+        cols.set(k, col);
+      }
+      const v = obj[k];
+      if (v == null) {
+        col.nullable = true;
+      } else {
+        col.type = widenType(col.type, sampleType(v));
+        if (typeof v === 'number' && !Number.isInteger(v)) {
+          col.fractional = true;
+        }
+      }
+    }
+    for (const [k, col] of cols) {
+      if (!(k in obj)) {
+        // Missing from this sample
+        col.nullable = true;
+      }
+    }
+  });
+
+  return [...cols].map(([name, col]) => ({
+    name,
+    // A bigint column cannot hold fractional numbers
+    typeName:
+      col.type === 'bigint' && col.fractional
+        ? 'number'
+        : col.type || 'unknown',
+    nullable: col.nullable,
+  }));
+}
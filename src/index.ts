@@ -2,6 +2,17 @@
 // Use of this source code is governed by a MIT
 // license that can be found in the LICENSE file.
 
+export * from './collect';
+export * from './db-pool-base';
+export * from './db-queue';
+export * from './derived-rows';
 export * from './driver';
+export * from './param-normalizer';
+export * from './placeholders';
+export * from './row-decoder';
 export * from './row-stream';
+export * from './savepoint-txn';
 export * from './sql-txn';
+export * from './txn-dialect';
+export * from './txn-runner';
+export * from './value-converter';
@@ -0,0 +1,198 @@
+// Copyright 2022 Joshua Honig. All rights reserved.
+// Use of this source code is governed by a MIT
+// license that can be found in the LICENSE file.
+
+// Type-only imports:
+import type { ParamValue } from '@sabl/db-api';
+
+/**
+ * Options which control how a {@link ParamNormalizer} converts
+ * each kind of parameter value. The first option listed for
+ * each kind is the default, which passes the value through.
+ */
+export interface ParamNormalizerOptions {
+  /**
+   * - `'date'`: Pass through as a Date
+   * - `'iso'`: Convert to an ISO 8601 string
+   * - `'epoch'`: Convert to milliseconds since the epoch
+   */
+  readonly date?: 'date' | 'iso' | 'epoch';
+
+  /**
+   * - `'bigint'`: Pass through as a bigint
+   * - `'string'`: Convert to a decimal string
+   * - `'number'`: Convert to a number. Rejected if the
+   *   value is outside the safe integer range
+   */
+  readonly bigint?: 'bigint' | 'string' | 'number';
+
+  /**
+   * - `'boolean'`: Pass through as a boolean
+   * - `'number'`: Convert to 1 or 0
+   */
+  readonly boolean?: 'boolean' | 'number';
+
+  /**
+   * - `'bytes'`: Pass through as a Uint8Array
+   * - `'buffer'`: Convert to a Node.js Buffer
+   * - `'base64'`: Convert to a base64 string
+   * - `'hex'`: Convert to a hexadecimal string
+   */
+  readonly bytes?: 'bytes' | 'buffer' | 'base64' | 'hex';
+
+  /**
+   * Plain objects:
+   * - `'json'`: Convert to a JSON string
+   * - `'reject'`: Reject with an error
+   */
+  readonly object?: 'json' | 'reject';
+
+  /**
+   * - `'null'`: Convert to null
+   * - `'reject'`: Reject with an error
+   */
+  readonly undefined?: 'null' | 'reject';
+
+  /**
+   * Implement to convert values before the built-in rules are
+   * applied. Return `undefined` to apply the built-in rules.
+   */
+  convert?(value: unknown, index: number): ParamValue | undefined;
+}
+
+/**
+ * Normalize a list of parameter values, returning a new array.
+ * Throws an error naming the (one-based) index of the first
+ * parameter which cannot be normalized.
+ */
+export type ParamNormalizer = (params: unknown[]) => ParamValue[];
+
+function isPlainObject(value: object): boolean {
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+}
+
+function describe(value: unknown): string {
+  if (typeof value === 'object') {
+    return value!.constructor?.name || 'object';
+  }
+  return typeof value;
+}
+
+/**
+ * Create a {@link ParamNormalizer} which converts Dates, bigints,
+ * booleans, Uint8Arrays, plain objects, and `undefined` into the
+ * forms a driver accepts. Strings, finite numbers, and null are
+ * passed through. Arrays are passed through with each element
+ * normalized. Any other value, such as a function, symbol,
+ * non-finite number, or class instance, is rejected.
+ */
+export function createParamNormalizer(
+  options?: ParamNormalizerOptions
+): ParamNormalizer {
+  const opts = options || {};
+
+  const normalize = (value: unknown, index: number): ParamValue => {
+    if (typeof opts.convert === 'function') {
+      const converted = opts.convert(value, index);
+      if (converted !== undefined) {
+        return converted;
+      }
+    }
+
+    const reject = (reason?: string): never => {
+      throw new Error(
+        `Unsupported value for parameter ${index + 1}: ${
+          reason || describe(value)
+        }`
+      );
+    };
+
+    switch (typeof value) {
+      case 'string':
+        return value;
+      case 'number':
+        return Number.isFinite(value) ? value : reject(String(value));
+      case 'boolean':
+        return opts.boolean === 'number' ? (value ? 1 : 0) : value;
+      case 'bigint':
+        switch (opts.bigint) {
+          case 'string':
+            return value.toString();
+          case 'number':
+            if (
+              value > BigInt(Number.MAX_SAFE_INTEGER) ||
+              value < BigInt(Number.MIN_SAFE_INTEGER)
+            ) {
+              return reject(`bigint ${value} is not a safe integer`);
+            }
+            return Number(value);
+        }
+        return value;
+      case 'undefined':
+        return opts.undefined === 'reject' ? reject() : null;
+      case 'object':
+        break;
+      default:
+        return reject();
+    }
+
+    if (value === null) {
+      return null;
+    }
+    if (value instanceof Date) {
+      if (isNaN(value.getTime())) {
+        return reject('invalid Date');
+      }
+      switch (opts.date) {
+        case 'iso':
+          return value.toISOString();
+        case 'epoch':
+          return value.getTime();
+      }
+      return value;
+    }
+    if (value instanceof Uint8Array) {
+      const buf = Buffer.from(value.buffer, value.byteOffset, value.byteLength);
+      switch (opts.bytes) {
+        case 'buffer':
+          return buf;
+        case 'base64':
+          return buf.toString('base64');
+        case 'hex':
+          return buf.toString('hex');
+      }
+      return value;
+    }
+    if (Array.isArray(value)) {
+      return value.map((v) => normalize(v, index));
+    }
+    if (isPlainObject(value)) {
+      if (opts.object === 'reject') {
+        return reject();
+      }
+      try {
+        return JSON.stringify(value, (k, v) =>
+          typeof v === 'bigint' ? v.toString() : v
+        );
+      } catch (err) {
+        return reject(`cannot convert object to JSON: ${(<Error>err).message}`);
+      }
+    }
+    return reject();
+  };
+
+  return (params: unknown[]): ParamValue[] =>
+    params.map((p, i) => normalize(p, i));
+}
+
+/**
+ * Normalize a list of parameter values using
+ * {@link createParamNormalizer} with the given options
+ */
+export function normalizeParams(
+  params: unknown[],
+  options?: ParamNormalizerOptions
+): ParamValue[] {
+  return createParamNormalizer(options)(params);
+}
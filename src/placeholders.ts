@@ -0,0 +1,400 @@
+// Copyright 2022 Joshua Honig. All rights reserved.
+// Use of this source code is governed by a MIT
+// license that can be found in the LICENSE file.
+
+// Type-only imports:
+import type { ParamValue } from '@sabl/db-api';
+
+/** Placeholder styles which refer to parameters by position */
+export type PositionalStyle = '?' | '$1';
+
+/** Placeholder styles which refer to parameters by name */
+export type NamedStyle = ':name' | '@name';
+
+/**
+ * A SQL parameter placeholder style:
+ *
+ * - `'?'`: Anonymous positional placeholders, as used by
+ *   SQLite, MySQL, and ODBC
+ * - `'$1'`: Numbered placeholders, as used by PostgreSQL
+ * - `':name'`: Named placeholders, as used by Oracle and SQLite
+ * - `'@name'`: Named placeholders, as used by SQL Server
+ */
+export type PlaceholderStyle = PositionalStyle | NamedStyle;
+
+/** Parameter values keyed by name, without a prefix */
+export interface NamedParams {
+  [name: string]: ParamValue;
+}
+
+/** The parameter type used by a placeholder style */
+export type ParamsFor<S extends PlaceholderStyle> = S extends NamedStyle
+  ? NamedParams
+  : ParamValue[];
+
+/** SQL and parameters rewritten to a target placeholder style */
+export interface RewrittenSql<S extends PlaceholderStyle> {
+  sql: string;
+  params: ParamsFor<S>;
+}
+
+const identPattern = /[A-Za-z_][A-Za-z0-9_]*/y;
+const numberPattern = /[0-9]+/y;
+const dollarQuotePattern = /\$([A-Za-z_][A-Za-z0-9_]*)?\$/y;
+const identCharPattern = /[A-Za-z0-9_$]/;
+
+function matchAt(pattern: RegExp, sql: string, pos: number): string | null {
+  pattern.lastIndex = pos;
+  const m = pattern.exec(sql);
+  return m == null ? null : m[0];
+}
+
+/**
+ * Check whether the character before `i` can be part of an
+ * identifier, in which case a `$` at `i` is also part of that
+ * identifier, as in PostgreSQL's `price$usd`
+ */
+function followsIdent(sql: string, i: number): boolean {
+  return i > 0 && identCharPattern.test(sql[i - 1]);
+}
+
+/**
+ * Options which describe SQL syntax that differs between platforms.
+ * Each defaults to false, which is correct for standard SQL.
+ */
+export interface SqlSyntaxOptions {
+  /**
+   * Treat a backslash inside a `'` or `"` quoted string as escaping
+   * the next character, as MySQL does unless the
+   * `NO_BACKSLASH_ESCAPES` SQL mode is set
+   */
+  readonly backslashEscapes?: boolean;
+
+  /** Treat `#` as the start of a line comment, as MySQL does */
+  readonly hashComments?: boolean;
+
+  /** Treat `[...]` as a quoted identifier, as SQL Server does */
+  readonly bracketIdentifiers?: boolean;
+}
+
+/**
+ * Find the end of a quoted token, where the closing quote is
+ * escaped by doubling, or optionally by a preceding backslash
+ */
+function endOfQuoted(
+  sql: string,
+  start: number,
+  close: string,
+  backslash: boolean
+): number {
+  for (let i = start + 1; i < sql.length; i++) {
+    const c = sql[i];
+    if (backslash && c === '\\') {
+      i++;
+    } else if (c === close) {
+      if (sql[i + 1] !== close) {
+        return i + 1;
+      }
+      i++;
+    }
+  }
+  return sql.length;
+}
+
+/** Find the end of a line comment starting at `i` */
+function endOfLine(sql: string, i: number): number {
+  const ix = sql.indexOf('\n', i);
+  return ix < 0 ? sql.length : ix;
+}
+
+/** Find the end of a token which cannot contain placeholders, if any */
+function endOfSkipped(
+  sql: string,
+  i: number,
+  syntax: SqlSyntaxOptions
+): number {
+  const c = sql[i];
+  switch (c) {
+    case "'":
+    case '"':
+      return endOfQuoted(sql, i, c, syntax.backslashEscapes === true);
+    case '`':
+      return endOfQuoted(sql, i, c, false);
+    case '[':
+      if (syntax.bracketIdentifiers === true) {
+        return endOfQuoted(sql, i, ']', false);
+      }
+      break;
+    case '#':
+      if (syntax.hashComments === true) {
+        return endOfLine(sql, i);
+      }
+      break;
+    case '-':
+      if (sql[i + 1] === '-') {
+        return endOfLine(sql, i);
+      }
+      break;
+    case '/':
+      if (sql[i + 1] === '*') {
+        const ix = sql.indexOf('*/', i + 2);
+        return ix < 0 ? sql.length : ix + 2;
+      }
+      break;
+    case '$': {
+      // PostgreSQL dollar-quoted string: $$...$$ or $tag$...$tag$
+      if (followsIdent(sql, i)) {
+        break;
+      }
+      const tag = matchAt(dollarQuotePattern, sql, i);
+      if (tag != null) {
+        const ix = sql.indexOf(tag, i + tag.length);
+        return ix < 0 ? sql.length : ix + tag.length;
+      }
+      break;
+    }
+    case ':':
+      // PostgreSQL cast operator
+      if (sql[i + 1] === ':') {
+        return i + 2;
+      }
+      break;
+    case '@':
+      // SQL Server system variable
+      if (sql[i + 1] === '@') {
+        return i + 2 + (matchAt(identPattern, sql, i + 2) || '').length;
+      }
+      break;
+  }
+  return i;
+}
+
+/**
+ * Scan `sql` for placeholders of the given style, replacing each with
+ * the result of `replace`. `key` is the zero-based index for `'?'`
+ * and `'$1'` placeholders, or the name for named placeholders.
+ * String literals, quoted identifiers, and comments are skipped.
+ */
+function scan(
+  sql: string,
+  style: PlaceholderStyle,
+  syntax: SqlSyntaxOptions,
+  replace: (key: number | string) => string
+): string {
+  let out = '';
+  let seq = 0;
+  let i = 0;
+  while (i < sql.length) {
+    const skipTo = endOfSkipped(sql, i, syntax);
+    if (skipTo > i) {
+      out += sql.slice(i, skipTo);
+      i = skipTo;
+      continue;
+    }
+
+    const c = sql[i];
+    if (style === '?' && c === '?') {
+      out += replace(seq++);
+      i++;
+      continue;
+    }
+    if (style === '$1' && c === '$' && !followsIdent(sql, i)) {
+      const num = matchAt(numberPattern, sql, i + 1);
+      if (num != null) {
+        out += replace(parseInt(num, 10) - 1);
+        i += 1 + num.length;
+        continue;
+      }
+    }
+    if (c === style[0] && (style === ':name' || style === '@name')) {
+      const name = matchAt(identPattern, sql, i + 1);
+      if (name != null) {
+        out += replace(name);
+        i += 1 + name.length;
+        continue;
+      }
+    }
+
+    out += c;
+    i++;
+  }
+  return out;
+}
+
+function isNamed(style: PlaceholderStyle): style is NamedStyle {
+  return style === ':name' || style === '@name';
+}
+
+/** Options for {@link rewritePlaceholders} */
+export interface RewriteOptions extends SqlSyntaxOptions {
+  /**
+   * Expand each array parameter into a comma-separated list of
+   * placeholders, one for each element, with the elements
+   * flattened into the output parameters. Intended for `IN (...)`
+   * clauses with drivers that cannot bind arrays. Defaults to false
+   */
+  expandArrays?: boolean;
+
+  /**
+   * Maximum number of elements allowed in a single expanded
+   * array parameter. Defaults to {@link DEFAULT_MAX_EXPANSION}
+   */
+  maxExpansion?: number;
+}
+
+/** Default value of {@link RewriteOptions.maxExpansion} */
+export const DEFAULT_MAX_EXPANSION = 1000;
+
+/**
+ * Rewrite SQL which uses the `from` placeholder style to use the
+ * `to` placeholder style, and arrange the parameter values to
+ * match. Placeholders inside string literals, quoted identifiers,
+ * PostgreSQL dollar-quoted strings, and comments are ignored.
+ * Platform-specific quoting and comment syntax, such as MySQL
+ * backslash escapes, must be enabled with {@link SqlSyntaxOptions}.
+ *
+ * Positional styles take an array of parameters, and named styles
+ * take a {@link NamedParams} object. When converting positional
+ * placeholders to named placeholders, the parameters are named
+ * `p1`, `p2`, and so on. When converting to `'?'`, parameters
+ * which are referenced more than once are repeated.
+ *
+ * If {@link RewriteOptions.expandArrays} is set, array parameters
+ * are expanded into one placeholder per element. Expanded named
+ * parameters are suffixed with the element number, so `:ids`
+ * becomes `:ids_1, :ids_2`. Empty arrays are rejected, because
+ * `IN ()` is not valid SQL.
+ */
+export function rewritePlaceholders<S extends PlaceholderStyle>(
+  sql: string,
+  params: ParamValue[] | NamedParams,
+  from: PlaceholderStyle,
+  to: S,
+  options?: RewriteOptions
+): RewrittenSql<S> {
+  const named = isNamed(from);
+  if (named && Array.isArray(params)) {
+    throw new Error('Named placeholders require a parameter object');
+  }
+  if (!named && !Array.isArray(params)) {
+    throw new Error('Positional placeholders require a parameter array');
+  }
+
+  const expand = options?.expandArrays === true;
+  const maxExpansion = options?.maxExpansion ?? DEFAULT_MAX_EXPANSION;
+  if (!Number.isInteger(maxExpansion) || maxExpansion < 1) {
+    throw new Error('maxExpansion must be a positive integer');
+  }
+
+  const label = (key: number | string): string =>
+    typeof key === 'number' ? String(key + 1) : `${from[0]}${key}`;
+
+  const lookup = (key: number | string): ParamValue => {
+    if (typeof key === 'number') {
+      const arr = <ParamValue[]>params;
+      if (!(key >= 0 && key < arr.length)) {
+        throw new Error(`Missing value for parameter ${label(key)}`);
+      }
+      return arr[key];
+    }
+    if (!Object.prototype.hasOwnProperty.call(params, key)) {
+      throw new Error(`Missing value for parameter ${label(key)}`);
+    }
+    return (<NamedParams>params)[key];
+  };
+
+  const outArray: ParamValue[] = [];
+  const outNamed: NamedParams = {};
+  const owners = new Map<string, number | string>();
+  const emitted = new Map<number | string, string>();
+  let cnt = 0;
+
+  const emitOne = (key: number | string, value: ParamValue, suffix = '') => {
+    switch (to) {
+      case '?':
+        outArray.push(value);
+        return '?';
+      case '$1':
+        return `$${outArray.push(value)}`;
+    }
+    const name = (typeof key === 'number' ? `p${key + 1}` : key) + suffix;
+    const owner = owners.get(name);
+    if (owner !== undefined && owner !== key) {
+      throw new Error(
+        `Expanded parameter name ${name} conflicts with another parameter`
+      );
+    }
+    owners.set(name, key);
+    outNamed[name] = value;
+    return `${to[0]}${name}`;
+  };
+
+  const text = scan(sql, from, options || {}, (key) => {
+    const value = lookup(key);
+    cnt++;
+
+    // '?' placeholders cannot be reused, so values are repeated
+    const prior = to === '?' ? undefined : emitted.get(key);
+    if (prior !== undefined) {
+      return prior;
+    }
+
+    let out: string;
+    if (expand && Array.isArray(value)) {
+      if (value.length == 0) {
+        throw new Error(
+          `Cannot expand empty array for parameter ${label(key)}`
+        );
+      }
+      if (value.length > maxExpansion) {
+        throw new Error(
+          `Parameter ${label(key)} has ${
+            value.length
+          } values, more than the maximum of ${maxExpansion}`
+        );
+      }
+      out = value
+        .map((v: ParamValue, i: number) => {
+          if (Array.isArray(v)) {
+            throw new Error(
+              `Cannot expand nested array for parameter ${label(key)}`
+            );
+          }
+          return emitOne(key, v, `_${i + 1}`);
+        })
+        .join(', ');
+    } else {
+      out = emitOne(key, value);
+    }
+    emitted.set(key, out);
+    return out;
+  });
+
+  if (from === '?' && cnt != (<ParamValue[]>params).length) {
+    throw new Error(
+      `Expected ${cnt} parameters, got ${(<ParamValue[]>params).length}`
+    );
+  }
+
+  return {
+    sql: text,
+    params: <ParamsFor<S>>(isNamed(to) ? outNamed : outArray),
+  };
+}
+
+/**
+ * Expand array parameters into one placeholder per element without
+ * otherwise changing the placeholder style. Shorthand for
+ * {@link rewritePlaceholders} with `expandArrays` set.
+ */
+export function expandArrayParams<S extends PlaceholderStyle>(
+  sql: string,
+  params: ParamsFor<S>,
+  style: S,
+  options?: Omit<RewriteOptions, 'expandArrays'>
+): RewrittenSql<S> {
+  return rewritePlaceholders(sql, params, style, style, {
+    ...options,
+    expandArrays: true,
+  });
+}
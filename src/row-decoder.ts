@@ -0,0 +1,153 @@
+// Copyright 2022 Joshua Honig. All rights reserved.
+// Use of this source code is governed by a MIT
+// license that can be found in the LICENSE file.
+
+import { DerivedRows } from './derived-rows';
+
+// Type-only imports:
+import type { ColumnInfo, Row, Rows } from '@sabl/db-api';
+
+/** Describes the expected column for a single property */
+export interface ColumnSchema {
+  /** Name of the source column. Defaults to the property name */
+  column?: string;
+
+  /**
+   * Accepted {@link ColumnInfo.typeName}s, compared
+   * case-insensitively. If omitted, any type is accepted
+   */
+  typeName?: string | string[];
+
+  /** Whether the value may be null. Defaults to false */
+  nullable?: boolean;
+
+  /**
+   * Whether the column may be missing from the result set.
+   * If missing, the property is set to undefined. Defaults to false
+   */
+  optional?: boolean;
+}
+
+/** Keys of `T` which are not methods */
+type DataKeys<T> = {
+  [K in keyof T]: T[K] extends (...args: any[]) => any ? never : K;
+}[keyof T];
+
+/**
+ * Describes the expected columns for each data property of `T`. A
+ * string or array of strings is shorthand for `{ typeName }`
+ */
+export type RowSchema<T> = {
+  readonly [K in DataKeys<T>]: ColumnSchema | string | string[];
+};
+
+interface FieldSpec {
+  prop: string;
+  column: string;
+  types: string[] | null;
+  nullable: boolean;
+  optional: boolean;
+}
+
+function compileSchema<T>(schema: RowSchema<T>): FieldSpec[] {
+  const fields: FieldSpec[] = [];
+  for (const prop of Object.keys(schema)) {
+    let spec = (<any>schema)[prop];
+    if (typeof spec === 'string' || Array.isArray(spec)) {
+      spec = { typeName: spec };
+    }
+    const s = <ColumnSchema>spec;
+    let types: string[] | null = null;
+    if (s.typeName != null) {
+      types = (Array.isArray(s.typeName) ? s.typeName : [s.typeName]).map((t) =>
+        t.toLowerCase()
+      );
+    }
+    fields.push({
+      prop,
+      column: s.column || prop,
+      types,
+      nullable: s.nullable === true,
+      optional: s.optional === true,
+    });
+  }
+  return fields;
+}
+
+function checkColumns(fields: FieldSpec[], columnTypes: ColumnInfo[]): void {
+  const byName = new Map(columnTypes.map((c) => [c.name, c]));
+  for (const f of fields) {
+    const col = byName.get(f.column);
+    if (col == null) {
+      if (f.optional) {
+        continue;
+      }
+      throw new Error(`Column ${f.column} is missing from the result set`);
+    }
+    if (f.types != null && !f.types.includes(col.typeName.toLowerCase())) {
+      throw new Error(
+        `Column ${f.column} has type ${col.typeName}, expected ${f.types.join(
+          ' or '
+        )}`
+      );
+    }
+  }
+}
+
+/**
+ * Validate column information against a schema. Throws an
+ * error naming the first column which is missing or which
+ * has an unexpected type.
+ */
+export function validateColumns<T>(
+  columnTypes: ColumnInfo[],
+  schema: RowSchema<T>
+): void {
+  checkColumns(compileSchema(schema), columnTypes);
+}
+
+/**
+ * Decode each row of `rows` into a plain object, or an instance of
+ * `type` if provided, with one property for each property of
+ * `schema`. The column information of `rows` is validated against
+ * `schema` on the first call to `next()`, even if there are no rows,
+ * and each value is checked for unexpected nulls. Errors name the
+ * offending column. If validation fails, `rows` is closed and
+ * `next()` rejects with the error.
+ */
+export function decodeRows<T>(
+  rows: Rows,
+  schema: RowSchema<T>,
+  type?: new () => T
+): DerivedRows<T> {
+  const fields = compileSchema(schema);
+  let present: FieldSpec[] = [];
+
+  const validate = (columnTypes: ColumnInfo[]) => {
+    checkColumns(fields, columnTypes);
+    const names = new Set(columnTypes.map((c) => c.name));
+    present = fields.filter((f) => names.has(f.column));
+  };
+
+  return DerivedRows.from(rows)
+    .validate(validate)
+    .mapTo((row: Row, index: number): T => {
+      const target: any = type != null ? new type() : {};
+      for (const f of fields) {
+        if (!present.includes(f)) {
+          // Missing optional column. Keep any default
+          // value set by the class constructor
+          if (type == null) {
+            target[f.prop] = undefined;
+          }
+          continue;
+        }
+        const v = row[f.column];
+        if (v == null && !f.nullable) {
+          throw new Error(`Column ${f.column} is null in row ${index + 1}`);
+        }
+        target[f.prop] = v;
+      }
+      return <T>target;
+    });
+}
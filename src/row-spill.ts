@@ -0,0 +1,193 @@
+// Copyright 2022 Joshua Honig. All rights reserved.
+// Use of this source code is governed by a MIT
+// license that can be found in the LICENSE file.
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+// Tag property used to mark encoded values which
+// JSON cannot otherwise represent
+const TAG = '\u0000t';
+
+// Size of each chunk read back from the spill file
+const CHUNK_SIZE = 64 * 1024;
+
+// Spill files which have not yet been closed. Deleted
+// on process exit if they have not been cleaned up. The
+// 'exit' event does not fire if the process is killed by
+// an unhandled signal, in which case the files remain
+const openFiles = new Set<string>();
+let exitHookInstalled = false;
+
+function installExitHook() {
+  if (exitHookInstalled) {
+    return;
+  }
+  exitHookInstalled = true;
+  process.once('exit', () => {
+    for (const file of openFiles) {
+      try {
+        fs.unlinkSync(file);
+      } catch {
+        // Nothing more we can do
+      }
+    }
+    openFiles.clear();
+  });
+}
+
+let spillSeq = 0;
+
+function encode(this: any, key: string, value: unknown): unknown {
+  // Use the raw value, before Date.toJSON was applied
+  const raw = this[key];
+  if (raw instanceof Date) {
+    return { [TAG]: 'date', v: raw.getTime() };
+  }
+  if (raw instanceof Uint8Array) {
+    return {
+      [TAG]: 'bytes',
+      v: Buffer.from(raw.buffer, raw.byteOffset, raw.byteLength).toString(
+        'base64'
+      ),
+    };
+  }
+  if (typeof raw === 'bigint') {
+    return { [TAG]: 'bigint', v: raw.toString() };
+  }
+  if (raw === undefined && Array.isArray(this)) {
+    return { [TAG]: 'undefined' };
+  }
+  return value;
+}
+
+function decode(key: string, value: any): unknown {
+  if (value == null || typeof value !== 'object' || !(TAG in value)) {
+    return value;
+  }
+  switch (value[TAG]) {
+    case 'date':
+      return new Date(value.v);
+    case 'bytes':
+      return Buffer.from(value.v, 'base64');
+    case 'bigint':
+      return BigInt(value.v);
+    case 'undefined':
+      return undefined;
+  }
+  return value;
+}
+
+/**
+ * A temporary file which holds rows that have overflowed
+ * the in-memory buffer of a {@link RowStream}. Rows are
+ * appended and read back in order as lines of JSON. Dates,
+ * binary values, and bigints are preserved.
+ *
+ * File operations are synchronous so that rows can be
+ * spilled from within the synchronous controller methods.
+ */
+export class RowSpill {
+  readonly #path: string;
+  #fd: number | null = null;
+  #writePos = 0;
+  #readPos = 0;
+  #size = 0;
+  #partial = Buffer.alloc(0);
+  #lines: string[] = [];
+
+  constructor(dir?: string) {
+    this.#path = path.join(
+      dir || os.tmpdir(),
+      `sabl-rows-${process.pid}-${++spillSeq}.jsonl`
+    );
+  }
+
+  /** The path of the temporary file */
+  get path(): string {
+    return this.#path;
+  }
+
+  /** The number of rows written which have not yet been read */
+  get size(): number {
+    return this.#size;
+  }
+
+  /** Append a row of values to the end of the file */
+  write(values: unknown[]): void {
+    if (this.#fd == null) {
+      this.#fd = fs.openSync(this.#path, 'w+');
+      openFiles.add(this.#path);
+      installExitHook();
+    }
+    const line = Buffer.from(JSON.stringify(values, encode) + '\n', 'utf8');
+    fs.writeSync(this.#fd, line, 0, line.length, this.#writePos);
+    this.#writePos += line.length;
+    this.#size++;
+  }
+
+  /** Read the next row of values from the file */
+  read(): unknown[] | null {
+    if (this.#size == 0) {
+      return null;
+    }
+    while (this.#lines.length == 0) {
+      this.#readChunk();
+    }
+    this.#size--;
+    const values = <unknown[]>JSON.parse(this.#lines.shift()!, decode);
+    if (this.#size == 0) {
+      this.#reset();
+    }
+    return values;
+  }
+
+  /** Close and delete the file */
+  close(): void {
+    this.#size = 0;
+    this.#partial = Buffer.alloc(0);
+    this.#lines = [];
+    if (this.#fd == null) {
+      return;
+    }
+    const fd = this.#fd;
+    this.#fd = null;
+    openFiles.delete(this.#path);
+    try {
+      fs.closeSync(fd);
+    } finally {
+      fs.unlinkSync(this.#path);
+    }
+  }
+
+  #readChunk() {
+    const chunk = Buffer.alloc(CHUNK_SIZE);
+    const cnt = fs.readSync(this.#fd!, chunk, 0, CHUNK_SIZE, this.#readPos);
+    if (cnt == 0) {
+      throw new Error('Unexpected end of spill file');
+    }
+    this.#readPos += cnt;
+
+    // Split on raw bytes so that a chunk which ends in the
+    // middle of a multi-byte character is decoded correctly
+    const data = Buffer.concat([this.#partial, chunk.subarray(0, cnt)]);
+    let start = 0;
+    let ix: number;
+    while ((ix = data.indexOf(0x0a, start)) >= 0) {
+      this.#lines.push(data.toString('utf8', start, ix));
+      start = ix + 1;
+    }
+    this.#partial = Buffer.from(data.subarray(start));
+  }
+
+  // All rows have been read. Start writing
+  // again from the beginning of the file.
+  #reset() {
+    this.#writePos = 0;
+    this.#readPos = 0;
+    this.#partial = Buffer.alloc(0);
+    this.#lines = [];
+    fs.ftruncateSync(this.#fd!, 0);
+  }
+}
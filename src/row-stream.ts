@@ -3,11 +3,17 @@
 // license that can be found in the LICENSE file.
 
 import EventEmitter from 'events';
+import { Readable } from 'stream';
 import { CallbackPromise, promise } from '@sabl/async';
 import { CanceledCallback, Canceler } from '@sabl/context';
-import { ColumnInfo, PlainObject, Rows, Row } from '@sabl/db-api';
+import { PlainObject, Rows, Row } from '@sabl/db-api';
+import { parseCols } from './driver';
+import { RowSpill } from './row-spill';
+import { findConverter } from './value-converter';
 
-import type { DriverRows } from './driver';
+import type { QueuingStrategy, ReadableStream } from 'stream/web';
+import type { DriverColumnInfo, DriverRows } from './driver';
+import type { ValueConverter, ValueConverters } from './value-converter';
 
 /** Controller interface for a RowStream */
 export interface RowController {
@@ -19,16 +25,33 @@ export interface RowController {
    */
   ready(): Promise<Error | null>;
 
-  /** Set the column information. Must be called before pushing rows */
-  setColumns(columns: ColumnInfo[]): void;
+  /**
+   * Set the column information. Must be called before pushing
+   * rows. Any extended metadata is passed through unchanged
+   * by `columnTypes`
+   */
+  setColumns(columns: DriverColumnInfo[]): void;
+
+  /**
+   * End the current result set and start a new one with the
+   * provided column information. Subsequent rows belong to
+   * the new result set.
+   */
+  nextResultSet(columns: DriverColumnInfo[]): void;
 
   /** Push a row object that implements the {@link Row} interface */
   pushRow(row: Row): void;
 
-  /** Push a row that is a plain array of values */
+  /**
+   * Push a row that is a plain array of values. Values
+   * are converted using any applicable converters.
+   */
   pushArray(row: any[]): void;
 
-  /** Push a row that is a plain object */
+  /**
+   * Push a row that is a plain object. Values are
+   * converted using any applicable converters.
+   */
   pushObject(row: PlainObject): void;
 
   /**
@@ -46,10 +69,173 @@ export interface RowController {
 
 export interface RowStreamOptions {
   /** Raise `pause` event if number of buffered rows reaches this amount  */
-  pauseCount: number;
+  pauseCount?: number;
 
   /** Raise `resume` event if number of buffered rows falls back below this amount */
   resumeCount?: number;
+
+  /**
+   * Raise `pause` event if the estimated size in bytes of
+   * buffered rows reaches this amount
+   */
+  pauseBytes?: number;
+
+  /**
+   * Raise `resume` event if the estimated size in bytes of
+   * buffered rows falls back below this amount
+   */
+  resumeBytes?: number;
+
+  /**
+   * Estimate the size in bytes of a row. Buffered bytes are only
+   * tracked if this, `pauseBytes`, or `spill.maxBytes` is provided,
+   * and are otherwise reported as 0. Defaults to {@link estimateRowSize}
+   */
+  estimateSize?(row: Row): number;
+
+  /**
+   * Spill rows to a temporary file once the in-memory buffer
+   * reaches a limit. Useful for drivers which cannot honor
+   * the `pause` event.
+   */
+  spill?: RowSpillOptions;
+
+  /**
+   * Converters applied to non-null values pushed with `pushArray`
+   * or `pushObject`, keyed by {@link ColumnInfo.typeName}. Use
+   * {@link combineConverters} to merge driver defaults with
+   * per-query overrides.
+   */
+  converters?: ValueConverters;
+
+  /**
+   * Maximum number of rows the controller may push, across all
+   * result sets. When exceeded, the stream is canceled as
+   * configured by `maxRowsBehavior`.
+   */
+  maxRows?: number;
+
+  /**
+   * Behavior when the controller pushes more than `maxRows` rows:
+   *
+   * - `'error'` (default): Fail the stream with an error.
+   * - `'truncate'`: Keep the rows already pushed, emit `cancel`
+   *   to the controller, and end normally once the controller
+   *   calls `end()`. Check {@link RowStream.isTruncated} to
+   *   detect that rows were dropped.
+   */
+  maxRowsBehavior?: 'error' | 'truncate';
+}
+
+/**
+ * Options for spilling buffered rows to disk. The spill file is
+ * deleted once its rows have been read, when the stream is
+ * closed, or when the process exits normally. It is not deleted if the process is
+ * killed by a signal such as `SIGINT` or `SIGTERM` which the
+ * application does not handle, so applications which may be
+ * stopped that way should set `dir` to a directory they clean
+ * up themselves.
+ */
+export interface RowSpillOptions {
+  /** Spill rows to disk once this many rows are buffered in memory */
+  maxRows?: number;
+
+  /**
+   * Spill rows to disk once the estimated size in bytes of
+   * rows buffered in memory reaches this amount
+   */
+  maxBytes?: number;
+
+  /**
+   * Directory in which to create the temporary file.
+   * Defaults to `os.tmpdir()`
+   */
+  dir?: string;
+}
+
+/**
+ * Estimate the in-memory size in bytes of a single value.
+ * Strings are counted as two bytes per character, binary
+ * values by their byte length, and numbers and dates as
+ * eight bytes. Arrays are summed recursively. All other
+ * values are counted as eight bytes.
+ */
+export function estimateValueSize(value: unknown): number {
+  if (value == null) {
+    return 0;
+  }
+  switch (typeof value) {
+    case 'string':
+      return value.length * 2;
+    case 'boolean':
+      return 4;
+    case 'number':
+    case 'bigint':
+      return 8;
+  }
+  if (value instanceof Uint8Array || value instanceof ArrayBuffer) {
+    return value.byteLength;
+  }
+  if (value instanceof Date) {
+    return 8;
+  }
+  if (Array.isArray(value)) {
+    let size = 0;
+    for (const v of value) {
+      size += estimateValueSize(v);
+    }
+    return size;
+  }
+  return 8;
+}
+
+/**
+ * Default row size estimator for {@link RowStream}.
+ * Sums {@link estimateValueSize} for each value in the row.
+ */
+export function estimateRowSize(row: Row): number {
+  let size = 0;
+  for (const v of Row.toArray(row)) {
+    size += estimateValueSize(v);
+  }
+  return size;
+}
+
+/** Options for {@link RowStream.fromReadable} */
+export interface ReadableRowsOptions extends RowStreamOptions {
+  /**
+   * Column information for the rows. Required if the source
+   * emits arrays. If not provided, columns are derived from
+   * the first object using {@link parseCols}
+   */
+  columns?: DriverColumnInfo[];
+}
+
+/**
+ * A result set which the controller has started,
+ * but which the client has not yet advanced to
+ */
+interface PendingResultSet {
+  columns: DriverColumnInfo[];
+  fieldNames: string[];
+  rows: Row[];
+
+  // Estimated size of `rows`, if estimateSize is provided
+  bytes: number;
+
+  // Rows which overflowed the in-memory
+  // limits, after all of `rows`
+  spill: RowSpill | null;
+}
+
+interface Watermarks {
+  canPause: boolean;
+  pauseCount?: number;
+  resumeCount?: number;
+  pauseBytes?: number;
+  resumeBytes?: number;
+  estimateSize?: (row: Row) => number;
+  spill?: RowSpillOptions;
 }
 
 export function asError(err: unknown): Error | null {
@@ -67,6 +253,23 @@ export function asError(err: unknown): Error | null {
   return new Error(String(err));
 }
 
+/**
+ * Get the WHATWG ReadableStream constructor. Loaded only when
+ * needed, because `stream/web` does not exist before Node 16.5
+ */
+function webReadableStream(): typeof ReadableStream {
+  const global = (<any>globalThis).ReadableStream;
+  if (typeof global === 'function') {
+    return global;
+  }
+  try {
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    return require('stream/web').ReadableStream;
+  } catch {
+    throw new Error('ReadableStream is not supported by this Node.js version');
+  }
+}
+
 /**
  * A buffered implementation of {@link Rows}. Useful for wrapping
  * platform APIs that do not support cursors, but instead push rows
@@ -100,10 +303,15 @@ export class RowStream extends EventEmitter implements DriverRows {
       return this.#stream.#waitReady;
     }
 
-    setColumns(columns: ColumnInfo[]): void {
+    setColumns(columns: DriverColumnInfo[]): void {
       this.#stream.#setColumns(columns);
     }
 
+    nextResultSet(columns: DriverColumnInfo[]): void {
+      this.#stream.#ensureFields('nextResultSet');
+      this.#stream.#startResultSet(columns);
+    }
+
     pushRow(row: Row): void {
       this.#stream.#ensureFields('pushRow');
       this.#stream.#pushRow(row);
@@ -136,6 +344,17 @@ export class RowStream extends EventEmitter implements DriverRows {
     }
   };
 
+  /**
+   * Check whether a RowStream was truncated because
+   * the controller pushed more than `maxRows` rows
+   */
+  static isTruncated(rs: Rows): boolean {
+    if (rs instanceof RowStream) {
+      return rs.#truncated;
+    }
+    throw new Error('rows is not a RowStream');
+  }
+
   /** Check whether a RowStream is closed */
   static isClosed(rs: Rows): boolean {
     if (rs instanceof RowStream) {
@@ -144,6 +363,17 @@ export class RowStream extends EventEmitter implements DriverRows {
     throw new Error('rows is not a RowStream');
   }
 
+  /**
+   * Check whether the controller of a RowStream has
+   * signalled that all data has been received
+   */
+  static isDone(rs: Rows): boolean {
+    if (rs instanceof RowStream) {
+      return rs.#done;
+    }
+    throw new Error('rows is not a RowStream');
+  }
+
   /** Check the size of a RowStream buffer */
   static size(rs: Rows): number {
     if (rs instanceof RowStream) {
@@ -160,6 +390,12 @@ export class RowStream extends EventEmitter implements DriverRows {
     canPause: boolean;
     pauseCount: number | undefined;
     resumeCount: number | undefined;
+    bytes: number;
+    pauseBytes: number | undefined;
+    resumeBytes: number | undefined;
+    spilled: number;
+    pushed: number;
+    truncated: boolean;
   } {
     if (rs instanceof RowStream) {
       return {
@@ -169,20 +405,194 @@ export class RowStream extends EventEmitter implements DriverRows {
         canPause: rs.#canPause,
         pauseCount: rs.#pauseCount,
         resumeCount: rs.#resumeCount,
+        bytes: rs.#totalBytes(),
+        pauseBytes: rs.#pauseBytes,
+        resumeBytes: rs.#resumeBytes,
+        spilled: rs.#spill?.size || 0,
+        pushed: rs.#pushed,
+        truncated: rs.#truncated,
       };
     }
     throw new Error('rows is not a RowStream');
   }
 
+  /**
+   * Create a {@link RowStream} which consumes an object-mode
+   * {@link Readable} that emits rows as arrays or plain objects.
+   * The `pause` and `resume` events of the controller are mapped
+   * to `pause()` and `resume()` on the source, and `cancel` is
+   * mapped to `destroy()`.
+   */
+  static fromReadable(
+    source: Readable,
+    clr?: Canceler | null,
+    options?: ReadableRowsOptions
+  ): RowStream {
+    const rs = new RowStream(clr!, options);
+    const ctrl = rs.controller;
+    let canceled = false;
+
+    if (options?.columns != null) {
+      ctrl.setColumns(options.columns);
+    }
+
+    ctrl.on('pause', () => source.pause());
+    ctrl.on('resume', () => source.resume());
+    ctrl.on('cancel', () => {
+      // Controller is ended when the source closes
+      canceled = true;
+      source.destroy();
+    });
+
+    source.on('data', (chunk: unknown) => {
+      if (canceled || rs.#done) {
+        return;
+      }
+      try {
+        RowStream.#pushChunk(rs, chunk);
+      } catch (err) {
+        ctrl.error(err);
+      }
+    });
+    source.on('end', () => {
+      if (!rs.#done) {
+        ctrl.end();
+      }
+    });
+    source.on('error', (err) => {
+      if (!canceled && !rs.#done) {
+        ctrl.error(err);
+      }
+    });
+    source.on('close', () => {
+      if (rs.#done) {
+        return;
+      }
+      if (canceled) {
+        ctrl.end();
+      } else {
+        ctrl.error(new Error('Source stream closed before end'));
+      }
+    });
+
+    return rs;
+  }
+
+  /**
+   * Create a {@link RowStream} which consumes a WHATWG
+   * {@link ReadableStream} that emits rows as arrays or plain
+   * objects. Chunks are read only while the stream is not paused,
+   * and `cancel` is mapped to canceling the source.
+   */
+  static fromReadableStream(
+    source: ReadableStream<unknown>,
+    clr?: Canceler | null,
+    options?: ReadableRowsOptions
+  ): RowStream {
+    const rs = new RowStream(clr!, options);
+    const ctrl = rs.controller;
+    const reader = source.getReader();
+    let reading = false;
+    let paused = false;
+    let canceled = false;
+
+    if (options?.columns != null) {
+      ctrl.setColumns(options.columns);
+    }
+
+    const pump = async () => {
+      if (reading) {
+        return;
+      }
+      reading = true;
+      try {
+        while (!paused && !canceled && !rs.#done) {
+          const { done, value } = await reader.read();
+          if (canceled || rs.#done) {
+            break;
+          }
+          if (done) {
+            ctrl.end();
+            break;
+          }
+          RowStream.#pushChunk(rs, value);
+        }
+      } catch (err) {
+        if (!canceled && !rs.#done) {
+          ctrl.error(err);
+        }
+      } finally {
+        reading = false;
+      }
+    };
+
+    ctrl.on('pause', () => (paused = true));
+    ctrl.on('resume', () => {
+      paused = false;
+      pump();
+    });
+    ctrl.on('cancel', () => {
+      // Controller is ended when the source is canceled
+      canceled = true;
+      reader
+        .cancel()
+        .catch(() => undefined)
+        .then(() => {
+          if (!rs.#done) {
+            ctrl.end();
+          }
+        });
+    });
+
+    pump();
+    return rs;
+  }
+
+  /** Push an array or plain object, deriving columns if needed */
+  static #pushChunk(rs: RowStream, chunk: unknown): void {
+    const ctrl = rs.#controller;
+    if (Array.isArray(chunk)) {
+      ctrl.pushArray(chunk);
+    } else {
+      if (!rs.#ready) {
+        ctrl.setColumns(parseCols(<PlainObject>chunk));
+      }
+      ctrl.pushObject(<PlainObject>chunk);
+    }
+  }
+
   readonly #controller: RowController;
   readonly #buf: Row[] = [];
   readonly #pauseCount?: number;
   readonly #resumeCount?: number;
+  readonly #pauseBytes?: number;
+  readonly #resumeBytes?: number;
+  readonly #estimateSize?: (row: Row) => number;
   readonly #canPause: boolean;
+  readonly #spillOpts?: RowSpillOptions;
+
+  // Estimated size of each buffered row, and their total.
+  // Only tracked if estimateSize, pauseBytes, or spill.maxBytes is set
+  readonly #sizes: number[] = [];
+  #bytes = 0;
 
   #row: Row | null = null;
-  #columns: ColumnInfo[] | null = null;
+  #columns: DriverColumnInfo[] | null = null;
   #fieldNames: string[] | null = null;
+
+  // Field names of the result set currently being
+  // pushed by the controller, which may be ahead
+  // of the result set being read by the client
+  #pushNames: string[] | null = null;
+  #pushConverters: (ValueConverter | null)[] | null = null;
+  readonly #converters?: ValueConverters;
+  readonly #maxRows?: number;
+  readonly #truncate: boolean = false;
+
+  // Total rows accepted from the controller
+  #pushed = 0;
+  #truncated = false;
+  readonly #pending: PendingResultSet[] = [];
   #err: Error | null = null;
   #ready = false;
 
@@ -207,8 +617,13 @@ export class RowStream extends EventEmitter implements DriverRows {
 
   #paused = false;
 
+  // Temporary file for rows which overflow the in-memory
+  // buffer. Created on first spill
+  #spill: RowSpill | null = null;
+
   #waitReady: CallbackPromise<Error | null> | null = null;
   #waitNext: CallbackPromise<boolean> | null = null;
+  #waitSet: CallbackPromise<boolean> | null = null;
   #waitClose: CallbackPromise<void> | null = null;
 
   #onCancel: CanceledCallback | null = null;
@@ -240,11 +655,18 @@ export class RowStream extends EventEmitter implements DriverRows {
 
     this.#controller = new RowStream.#Controller(this);
 
-    const [canPause, pauseCount, resumeCount] = this.#validateOptions(options);
-    this.#canPause = canPause;
-    if (canPause) {
-      this.#pauseCount = pauseCount;
-      this.#resumeCount = resumeCount;
+    const marks = this.#validateOptions(options);
+    this.#canPause = marks.canPause;
+    this.#pauseCount = marks.pauseCount;
+    this.#resumeCount = marks.resumeCount;
+    this.#pauseBytes = marks.pauseBytes;
+    this.#resumeBytes = marks.resumeBytes;
+    this.#estimateSize = marks.estimateSize;
+    this.#spillOpts = marks.spill;
+    this.#converters = options?.converters;
+    if (options?.maxRows != null) {
+      this.#maxRows = this.#validateMaxRows(options);
+      this.#truncate = options.maxRowsBehavior === 'truncate';
     }
 
     if (clr != null) {
@@ -258,17 +680,69 @@ export class RowStream extends EventEmitter implements DriverRows {
     return this.#controller;
   }
 
-  #validateOptions(options?: RowStreamOptions): [boolean, number?, number?] {
+  #validateOptions(options?: RowStreamOptions): Watermarks {
     if (options == null) {
-      return [false];
+      return { canPause: false };
     }
 
+    const [pauseCount, resumeCount] = this.#validateCount(options);
+    const [pauseBytes, resumeBytes] = this.#validateBytes(options);
+    const spill = this.#validateSpill(options);
+
+    const marks: Watermarks = {
+      canPause: pauseCount != null || pauseBytes != null,
+      pauseCount,
+      resumeCount,
+      pauseBytes,
+      resumeBytes,
+      spill,
+    };
+    if (
+      options.estimateSize != null ||
+      pauseBytes != null ||
+      spill?.maxBytes != null
+    ) {
+      marks.estimateSize = options.estimateSize || estimateRowSize;
+    }
+    return marks;
+  }
+
+  #validateMaxRows(options: RowStreamOptions): number {
+    const maxRows = options.maxRows!;
+    if (!Number.isInteger(maxRows) || maxRows < 0) {
+      throw new Error('maxRows must be a non-negative integer');
+    }
+    const behavior = options.maxRowsBehavior;
+    if (behavior != null && behavior !== 'error' && behavior !== 'truncate') {
+      throw new Error(`Invalid maxRowsBehavior: ${behavior}`);
+    }
+    return maxRows;
+  }
+
+  #validateSpill(options: RowStreamOptions): RowSpillOptions | undefined {
+    const spill = options.spill;
+    if (spill == null) {
+      return undefined;
+    }
+    if (spill.maxRows == null && spill.maxBytes == null) {
+      throw new Error('spill requires maxRows or maxBytes');
+    }
+    if (spill.maxRows != null && !(spill.maxRows > 0)) {
+      throw new Error('spill.maxRows must be positive');
+    }
+    if (spill.maxBytes != null && !(spill.maxBytes > 0)) {
+      throw new Error('spill.maxBytes must be positive');
+    }
+    return { ...spill };
+  }
+
+  #validateCount(options: RowStreamOptions): [number?, number?] {
     const pauseCount = options.pauseCount;
     if (pauseCount == null) {
       if (options.resumeCount != null) {
         throw new Error('pauseCount must be provided with resumeCount');
       }
-      return [false];
+      return [];
     }
 
     if (pauseCount < 2) {
@@ -285,7 +759,33 @@ export class RowStream extends EventEmitter implements DriverRows {
       }
     }
 
-    return [true, pauseCount, resumeCount];
+    return [pauseCount, resumeCount];
+  }
+
+  #validateBytes(options: RowStreamOptions): [number?, number?] {
+    const pauseBytes = options.pauseBytes;
+    if (pauseBytes == null) {
+      if (options.resumeBytes != null) {
+        throw new Error('pauseBytes must be provided with resumeBytes');
+      }
+      return [];
+    }
+
+    if (!(pauseBytes > 0)) {
+      throw new Error('pauseBytes must be positive');
+    }
+    let resumeBytes = options.resumeBytes;
+    if (resumeBytes == null) {
+      resumeBytes = Math.floor(pauseBytes / 2);
+    } else {
+      if (resumeBytes < 0) {
+        throw new Error('resumeBytes cannot be negative');
+      } else if (resumeBytes >= pauseBytes) {
+        throw new Error('resumeBytes must be less than pauseBytes');
+      }
+    }
+
+    return [pauseBytes, resumeBytes];
   }
 
   #cancel(err: Error): void {
@@ -299,6 +799,8 @@ export class RowStream extends EventEmitter implements DriverRows {
       this.#clr!.off(this.#onCancel);
       this.#onCancel = null;
     }
+    this.#closeSpill();
+    this.#discardPending();
     this.emit('cancel');
 
     if (!this.#ready) {
@@ -311,17 +813,133 @@ export class RowStream extends EventEmitter implements DriverRows {
       wnx.reject(err);
     }
 
+    const wset = this.#waitSet;
+    if (wset != null) {
+      this.#waitSet = null;
+      wset.reject(err);
+    }
+
     this.#end();
   }
 
-  #setColumns(columns: ColumnInfo[]) {
+  #setColumns(columns: DriverColumnInfo[]) {
     this.#columns = columns;
-    this.#fieldNames = columns.map((c) => c.name);
+    this.#fieldNames = this.#pushNames = columns.map((c) => c.name);
+    this.#setPushColumns(columns);
     if (!this.#ready) {
       this.#resolveReady(null);
     }
   }
 
+  #startResultSet(columns: DriverColumnInfo[]) {
+    if (this.#canceling) {
+      // Ignore the result set. Query is canceling
+      return;
+    }
+
+    const fieldNames = (this.#pushNames = columns.map((c) => c.name));
+    this.#setPushColumns(columns);
+    this.#pending.push({
+      columns,
+      fieldNames,
+      rows: [],
+      bytes: 0,
+      spill: null,
+    });
+
+    const wnx = this.#waitNext;
+    if (wnx != null) {
+      // Client was waiting for more rows in the
+      // current result set. There will be no more.
+      this.#waitNext = null;
+      wnx.resolve(false);
+    }
+
+    const wset = this.#waitSet;
+    if (wset != null) {
+      // Client was waiting for the next result set
+      this.#waitSet = null;
+      this.#clearBuffer();
+      this.#advanceResultSet();
+      wset.resolve(true);
+    }
+  }
+
+  // Resolve the converter for each column, if any
+  #setPushColumns(columns: DriverColumnInfo[]) {
+    const converters = this.#converters;
+    if (converters == null) {
+      return;
+    }
+    const found = columns.map((c) => findConverter(converters, c));
+    this.#pushConverters = found.some((fn) => fn != null) ? found : null;
+  }
+
+  #convert(values: unknown[]): unknown[] {
+    const converters = this.#pushConverters;
+    if (converters == null) {
+      return values;
+    }
+
+    const columns = this.#pushColumns();
+    const out = values.slice();
+    for (let i = 0; i < converters.length; i++) {
+      const fn = converters[i];
+      const v = out[i];
+      if (fn == null || v == null) {
+        continue;
+      }
+      const col = columns[i];
+      try {
+        out[i] = fn(v, col);
+      } catch (err) {
+        throw new Error(
+          `Cannot convert column ${col.name} (${col.typeName}): ${
+            asError(err)!.message
+          }`
+        );
+      }
+    }
+    return out;
+  }
+
+  // Column info of the result set currently being pushed
+  #pushColumns(): DriverColumnInfo[] {
+    const pending = this.#pending;
+    if (pending.length > 0) {
+      return pending[pending.length - 1].columns;
+    }
+    return this.#columns!;
+  }
+
+  // Make the next pending result set current. The
+  // buffer must already have been cleared
+  #advanceResultSet() {
+    const set = this.#pending.shift()!;
+    this.#columns = set.columns;
+    this.#fieldNames = set.fieldNames;
+    this.#row = null;
+    for (const row of set.rows) {
+      this.#bufferRow(row);
+    }
+    this.#spill = set.spill;
+  }
+
+  // Discard all pending result sets
+  #discardPending() {
+    for (const set of this.#pending) {
+      set.spill?.close();
+    }
+    this.#pending.length = 0;
+  }
+
+  #clearBuffer() {
+    this.#buf.length = 0;
+    this.#sizes.length = 0;
+    this.#bytes = 0;
+    this.#closeSpill();
+  }
+
   #resolveReady(err: Error | null) {
     this.#ready = true;
     const wReady = this.#waitReady;
@@ -332,18 +950,24 @@ export class RowStream extends EventEmitter implements DriverRows {
   }
 
   #ensureFields(op: string): string[] {
-    if (this.#fieldNames == null) {
+    if (this.#pushNames == null) {
       throw new Error(`Cannot ${op}: Column info not yet set`);
     }
-    return this.#fieldNames;
+    return this.#pushNames;
   }
 
   #pushArray(row: any[]): void {
-    this.#pushRow(Row.fromArray(row, this.#fieldNames!));
+    this.#pushRow(Row.fromArray(this.#convert(row), this.#pushNames!));
   }
 
   #pushObject(row: PlainObject): void {
-    this.#pushRow(Row.fromObject(row, this.#fieldNames!));
+    const names = this.#pushNames!;
+    if (this.#pushConverters != null) {
+      const values = this.#convert(names.map((n) => row[n]));
+      this.#pushRow(Row.fromArray(values, names));
+    } else {
+      this.#pushRow(Row.fromObject(row, names));
+    }
   }
 
   #pushRow(row: Row) {
@@ -351,6 +975,28 @@ export class RowStream extends EventEmitter implements DriverRows {
       // Ignore the row. Query is canceling
       return;
     }
+
+    if (this.#maxRows != null && this.#pushed >= this.#maxRows) {
+      this.#exceedMaxRows();
+      return;
+    }
+    this.#pushed++;
+
+    const pending = this.#pending;
+    if (pending.length > 0) {
+      // Row belongs to a result set which the
+      // client has not yet advanced to
+      this.#pushPending(pending[pending.length - 1], row);
+      this.#checkPause();
+      return;
+    }
+
+    if (this.#waitSet != null) {
+      // Client has already moved on from the current
+      // result set and will not read this row
+      return;
+    }
+
     const wnx = this.#waitNext;
 
     const buf = this.#buf;
@@ -367,16 +1013,155 @@ export class RowStream extends EventEmitter implements DriverRows {
     // working through the buffer. Add
     // this row to the buffer.
 
-    buf.push(row);
+    if (this.#shouldSpill()) {
+      if (this.#spill == null) {
+        this.#spill = new RowSpill(this.#spillOpts!.dir);
+      }
+      this.#spill.write(Row.toArray(row));
+    } else {
+      this.#bufferRow(row);
+    }
+
+    this.#checkPause();
+  }
+
+  #pushPending(set: PendingResultSet, row: Row) {
+    const opts = this.#spillOpts;
+    if (
+      opts != null &&
+      ((set.spill != null && set.spill.size > 0) || this.#pendingFull(opts))
+    ) {
+      if (set.spill == null) {
+        set.spill = new RowSpill(opts.dir);
+      }
+      set.spill.write(Row.toArray(row));
+      return;
+    }
+
+    set.rows.push(row);
+    if (this.#estimateSize != null) {
+      set.bytes += this.#estimateSize(row);
+    }
+  }
+
+  // Whether the rows held in memory across the current
+  // and pending result sets have reached the spill limits
+  #pendingFull(opts: RowSpillOptions): boolean {
+    if (opts.maxRows != null) {
+      let cnt = this.#buf.length;
+      for (const set of this.#pending) {
+        cnt += set.rows.length;
+      }
+      if (cnt >= opts.maxRows) {
+        return true;
+      }
+    }
+    return opts.maxBytes != null && this.#totalBytes() >= opts.maxBytes;
+  }
+
+  // Estimated size of all buffered rows,
+  // including those of pending result sets
+  #totalBytes(): number {
+    let bytes = this.#bytes;
+    for (const set of this.#pending) {
+      bytes += set.bytes;
+    }
+    return bytes;
+  }
+
+  #exceedMaxRows() {
+    if (!this.#truncate) {
+      this.#error(new Error(`Query returned more than ${this.#maxRows} rows`));
+      return;
+    }
+
+    // Drop this and any further rows, and tell the controller
+    // to stop. The stream ends when the controller calls end()
+    this.#truncated = true;
+    this.#canceling = true;
+    this.emit('cancel');
+  }
+
+  #checkPause() {
     if (this.#canPause) {
       if (!this.#paused) {
-        if (buf.length >= this.#pauseCount!) {
+        if (this.#shouldPause()) {
           this.#pause();
         }
       }
     }
   }
 
+  #bufferRow(row: Row) {
+    this.#buf.push(row);
+    if (this.#estimateSize != null) {
+      const size = this.#estimateSize(row);
+      this.#sizes.push(size);
+      this.#bytes += size;
+    }
+  }
+
+  // Rows must be spilled if the in-memory buffer is full,
+  // or if earlier rows are still waiting on disk
+  #shouldSpill(): boolean {
+    const opts = this.#spillOpts;
+    if (opts == null) {
+      return false;
+    }
+    if (this.#spill != null && this.#spill.size > 0) {
+      return true;
+    }
+    return this.#memoryFull(opts);
+  }
+
+  #memoryFull(opts: RowSpillOptions): boolean {
+    if (opts.maxRows != null && this.#buf.length >= opts.maxRows) {
+      return true;
+    }
+    return opts.maxBytes != null && this.#bytes >= opts.maxBytes;
+  }
+
+  // Read spilled rows back into memory until the
+  // in-memory buffer is full or the file is empty
+  #refill() {
+    const spill = this.#spill!;
+    const opts = this.#spillOpts!;
+    const names = this.#fieldNames!;
+    while (spill.size > 0 && !this.#memoryFull(opts)) {
+      this.#bufferRow(Row.fromArray(spill.read()!, names));
+    }
+  }
+
+  #closeSpill() {
+    const spill = this.#spill;
+    if (spill != null) {
+      this.#spill = null;
+      spill.close();
+    }
+  }
+
+  #count(): number {
+    let cnt = this.#buf.length + (this.#spill?.size || 0);
+    for (const set of this.#pending) {
+      cnt += set.rows.length + (set.spill?.size || 0);
+    }
+    return cnt;
+  }
+
+  #shouldPause(): boolean {
+    if (this.#pauseCount != null && this.#count() >= this.#pauseCount) {
+      return true;
+    }
+    return this.#pauseBytes != null && this.#totalBytes() >= this.#pauseBytes;
+  }
+
+  #shouldResume(): boolean {
+    if (this.#resumeCount != null && this.#count() > this.#resumeCount) {
+      return false;
+    }
+    return this.#resumeBytes == null || this.#totalBytes() <= this.#resumeBytes;
+  }
+
   #error(err: unknown) {
     this.#err =
       asError(err) || new Error('Underlying stream encountered an error');
@@ -385,6 +1170,9 @@ export class RowStream extends EventEmitter implements DriverRows {
   }
 
   #end() {
+    // #error ends the stream both through #cancel and directly,
+    // so only the first call signals completion
+    const first = !this.#done;
     this.#done = true;
 
     if (!this.#ready) {
@@ -394,7 +1182,9 @@ export class RowStream extends EventEmitter implements DriverRows {
     }
 
     // Release the underlying connection
-    this.emit('complete');
+    if (first) {
+      this.emit('complete');
+    }
 
     const wc = this.#waitClose;
     if (wc != null) {
@@ -411,11 +1201,18 @@ export class RowStream extends EventEmitter implements DriverRows {
     }
 
     const wnx = this.#waitNext;
-    if (wnx != null && this.#buf.length == 0) {
+    if (wnx != null && this.#count() == 0) {
       // No more data and there is a pending next().
       // Run close(). to clear it out and close the Rows.
       this.close();
     }
+
+    const wset = this.#waitSet;
+    if (wset != null) {
+      // No more result sets. Close the Rows.
+      this.#waitSet = null;
+      this.close().then(() => wset.resolve(false));
+    }
   }
 
   #pause() {
@@ -448,6 +1245,10 @@ export class RowStream extends EventEmitter implements DriverRows {
       this.#onCancel = null;
     }
 
+    // Client will not read any more rows
+    this.#closeSpill();
+    this.#discardPending();
+
     const wnx = this.#waitNext;
 
     if (this.#done) {
@@ -477,6 +1278,13 @@ export class RowStream extends EventEmitter implements DriverRows {
       this.#waitNext = null;
       waitClose.then(() => wnx.resolve(false));
     }
+
+    const wset = this.#waitSet;
+    if (wset != null) {
+      // Likewise for a pending nextResultSet()
+      this.#waitSet = null;
+      waitClose.then(() => wset.resolve(false));
+    }
     return waitClose;
   }
 
@@ -494,14 +1302,20 @@ export class RowStream extends EventEmitter implements DriverRows {
     }
 
     const buf = this.#buf;
+    if (buf.length == 0 && this.#spill != null && this.#spill.size > 0) {
+      this.#refill();
+    }
 
     if (buf.length > 0) {
       // Data is already buffered
       this.#row = buf.shift()!;
+      if (this.#estimateSize != null) {
+        this.#bytes -= this.#sizes.shift()!;
+      }
 
       // Signal resume if applicable
       if (this.#canPause && this.#paused) {
-        if (buf.length <= this.#resumeCount!) {
+        if (this.#shouldResume()) {
           this.#resume();
         }
       }
@@ -509,6 +1323,12 @@ export class RowStream extends EventEmitter implements DriverRows {
       return true;
     }
 
+    if (this.#pending.length > 0) {
+      // End of the current result set. Rows are not
+      // closed, so the client can call nextResultSet()
+      return false;
+    }
+
     if (this.#done) {
       // All data is buffered. There will be no more rows.
       // Automatically close the rows per Rows contract
@@ -519,6 +1339,48 @@ export class RowStream extends EventEmitter implements DriverRows {
     return (this.#waitNext = promise<boolean>());
   }
 
+  /**
+   * Advance to the next result set, discarding any unread rows
+   * in the current result set. Resolves to true once the
+   * controller has started the next result set, or to false
+   * if there are no more result sets, in which case the rows
+   * are automatically closed.
+   */
+  async nextResultSet(): Promise<boolean> {
+    if (this.#closed) {
+      return false;
+    } else if (this.#closing) {
+      await this.close();
+      return false;
+    }
+    if (this.#waitNext != null) {
+      throw new Error('Existing next() call has not yet resolved');
+    }
+    if (this.#waitSet != null) {
+      throw new Error('Existing nextResultSet() call has not yet resolved');
+    }
+
+    this.#clearBuffer();
+
+    if (this.#pending.length > 0) {
+      this.#advanceResultSet();
+    } else if (this.#done) {
+      await this.close();
+      return false;
+    } else {
+      this.#row = null;
+      this.#waitSet = promise<boolean>();
+    }
+
+    if (this.#canPause && this.#paused) {
+      if (this.#shouldResume()) {
+        this.#resume();
+      }
+    }
+
+    return this.#waitSet || true;
+  }
+
   get columns(): string[] {
     if (this.#fieldNames == null) {
       throw new Error('Column information not yet available');
@@ -526,7 +1388,7 @@ export class RowStream extends EventEmitter implements DriverRows {
     return this.#fieldNames.slice();
   }
 
-  get columnTypes(): ColumnInfo[] {
+  get columnTypes(): DriverColumnInfo[] {
     if (this.#columns == null) {
       throw new Error('Column information not yet available');
     }
@@ -545,13 +1407,78 @@ export class RowStream extends EventEmitter implements DriverRows {
     return this.#row;
   }
 
+  /**
+   * Create an object-mode {@link Readable} which emits each
+   * {@link Row}. Destroying the readable closes the rows.
+   */
+  toReadable(): Readable {
+    const readable: Readable = new Readable({
+      objectMode: true,
+      read: () => {
+        this.next().then(
+          (ok) => {
+            if (ok) {
+              readable.push(this.row);
+            } else if (this.#err != null) {
+              readable.destroy(this.#err);
+            } else {
+              readable.push(null);
+            }
+          },
+          (err) => readable.destroy(asError(err)!)
+        );
+      },
+      destroy: (err, callback) => {
+        this.close().then(
+          () => callback(err),
+          (closeErr) => callback(err || closeErr)
+        );
+      },
+    });
+    return readable;
+  }
+
+  /**
+   * Create a WHATWG {@link ReadableStream} which emits each
+   * {@link Row}. Rows are pulled only while the stream's
+   * `desiredSize` is positive, according to `strategy`.
+   * Canceling the stream closes the rows.
+   */
+  toReadableStream(strategy?: QueuingStrategy<Row>): ReadableStream<Row> {
+    const ReadableStream = webReadableStream();
+    return new ReadableStream<Row>(
+      {
+        pull: async (controller) => {
+          if (await this.next()) {
+            controller.enqueue(this.row);
+          } else if (this.#err != null) {
+            controller.error(this.#err);
+          } else {
+            controller.close();
+          }
+        },
+        cancel: () => this.close(),
+      },
+      strategy
+    );
+  }
+
+  /**
+   * Iterate the rows of the current result set. If further result
+   * sets remain, the rows are left open so that the client can
+   * call {@link nextResultSet}. Otherwise the rows are closed.
+   */
   async *[Symbol.asyncIterator](): AsyncIterator<Row, any, undefined> {
+    let more = false;
     try {
       while (await this.next()) {
         yield this.row;
       }
+      more = this.#pending.length > 0;
     } finally {
-      await this.close();
+      if (!more) {
+        await this.close();
+      }
     }
   }
 }
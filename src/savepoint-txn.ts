@@ -0,0 +1,215 @@
+// Copyright 2022 Joshua Honig. All rights reserved.
+// Use of this source code is governed by a MIT
+// license that can be found in the LICENSE file.
+
+import EventEmitter from 'events';
+import { StorageKind, StorageMode } from '@sabl/storage-pool';
+import { IsolationLevel, TxnOptions } from '@sabl/txn';
+
+// Type-only imports:
+import type { IContext } from '@sabl/context';
+import type { DbConn, Result, Rows, Row } from '@sabl/db-api';
+import type { DriverTxn } from './driver';
+import type { ParamNormalizer } from './param-normalizer';
+
+let savepointSeq = 0;
+
+/** Generate a savepoint name which is unique within this process */
+function nextSavepointName(): string {
+  return `sabl_sp_${++savepointSeq}`;
+}
+
+/**
+ * A nested transaction implemented with `SAVEPOINT`,
+ * `RELEASE SAVEPOINT`, and `ROLLBACK TO SAVEPOINT`
+ * statements. Created by {@link SqlTxn} when the
+ * `useSavepoints` config option is set. Rolling back
+ * also releases the savepoint, because `ROLLBACK TO`
+ * leaves it in place on most platforms.
+ *
+ * A savepoint transaction may itself begin a nested
+ * transaction, but only one nested transaction may be
+ * open at a time, and a transaction cannot be committed
+ * while a nested transaction is still open.
+ */
+export class SavepointTxn extends EventEmitter implements DriverTxn {
+  #closed = false;
+  #started = false;
+  #child: SavepointTxn | null = null;
+  readonly #name: string;
+  readonly #con: DbConn;
+  readonly #ctx: IContext;
+  readonly #normalize?: ParamNormalizer;
+
+  /** Create and start a {@link SavepointTxn} */
+  static async start(
+    ctx: IContext,
+    txnCon: DbConn,
+    opts?: TxnOptions,
+    paramNormalizer?: ParamNormalizer
+  ): Promise<SavepointTxn> {
+    const txn = new SavepointTxn(ctx, txnCon, opts, paramNormalizer);
+    await txn.start();
+    return txn;
+  }
+
+  /**
+   * Mark a savepoint transaction and any of its own nested
+   * transactions as closed without executing any statements.
+   * Used when an enclosing transaction is rolled back, which
+   * implicitly discards all its savepoints.
+   */
+  static abandon(txn: SavepointTxn): void {
+    if (txn.#closed) {
+      return;
+    }
+    if (txn.#child != null) {
+      SavepointTxn.abandon(txn.#child);
+    }
+    txn.#closed = true;
+    txn.emit('complete', txn);
+  }
+
+  /** Get the generated name of a savepoint transaction */
+  static savepointName(txn: SavepointTxn): string {
+    return txn.#name;
+  }
+
+  /**
+   * Create a savepoint transaction on `txnCon`. If `paramNormalizer`
+   * is provided, it is applied to the parameters of `exec`, `query`,
+   * and `queryRow`, and is inherited by nested transactions.
+   */
+  constructor(
+    ctx: IContext,
+    txnCon: DbConn,
+    opts?: TxnOptions,
+    paramNormalizer?: ParamNormalizer
+  ) {
+    super();
+    if (opts != null) {
+      const level = opts.isolationLevel;
+      if (level != null && level != IsolationLevel.default) {
+        throw new Error('Nested transactions cannot set isolation level');
+      }
+      if (opts.readOnly === true) {
+        throw new Error('Nested transactions cannot be read only');
+      }
+    }
+    this.#ctx = ctx;
+    this.#con = txnCon;
+    this.#name = nextSavepointName();
+    this.#normalize = paramNormalizer;
+  }
+
+  get mode(): StorageMode {
+    return StorageMode.txn;
+  }
+
+  get kind(): string {
+    return StorageKind.rdb;
+  }
+
+  #checkStatus() {
+    if (this.#closed) {
+      throw new Error('Transaction is already closed');
+    }
+    if (!this.#started) {
+      throw new Error('Transaction is not yet started');
+    }
+  }
+
+  async start(): Promise<void> {
+    try {
+      await this.#con.exec(this.#ctx, `SAVEPOINT ${this.#name}`);
+      this.#started = true;
+    } catch (err) {
+      this.#closed = true;
+      throw err;
+    }
+  }
+
+  #params(params: unknown[]): unknown[] {
+    const normalize = this.#normalize;
+    return typeof normalize === 'function' ? normalize(params) : params;
+  }
+
+  async exec(
+    ctx: IContext,
+    sql: string,
+    ...params: unknown[]
+  ): Promise<Result> {
+    this.#checkStatus();
+    return this.#con.exec(ctx, sql, ...this.#params(params));
+  }
+
+  async queryRow(
+    ctx: IContext,
+    sql: string,
+    ...params: unknown[]
+  ): Promise<Row | null> {
+    this.#checkStatus();
+    return this.#con.queryRow(ctx, sql, ...this.#params(params));
+  }
+
+  async query(ctx: IContext, sql: string, ...params: unknown[]): Promise<Rows> {
+    this.#checkStatus();
+    return this.#con.query(ctx, sql, ...this.#params(params));
+  }
+
+  async commit(): Promise<void> {
+    this.#checkStatus();
+    if (this.#child != null) {
+      throw new Error('Cannot commit while a nested transaction is open');
+    }
+    this.#closed = true;
+
+    try {
+      await this.#con.exec(this.#ctx, `RELEASE SAVEPOINT ${this.#name}`);
+    } finally {
+      this.emit('complete', this);
+    }
+  }
+
+  async rollback(): Promise<void> {
+    this.#checkStatus();
+    if (this.#child != null) {
+      SavepointTxn.abandon(this.#child);
+    }
+    this.#closed = true;
+
+    try {
+      await this.#con.exec(this.#ctx, `ROLLBACK TO SAVEPOINT ${this.#name}`);
+      await this.#con.exec(this.#ctx, `RELEASE SAVEPOINT ${this.#name}`);
+    } finally {
+      this.emit('complete', this);
+    }
+  }
+
+  async beginTxn(ctx: IContext, opts?: TxnOptions): Promise<DriverTxn> {
+    this.#checkStatus();
+    if (this.#child != null) {
+      throw new Error('A nested transaction is already open');
+    }
+
+    // Reserve the child slot before the SAVEPOINT statement
+    // runs, so that concurrent calls to beginTxn or commit
+    // see the nested transaction as already open
+    const child = new SavepointTxn(ctx, this.#con, opts, this.#normalize);
+    this.#child = child;
+    child.on('complete', () => {
+      if (this.#child === child) {
+        this.#child = null;
+      }
+    });
+    try {
+      await child.start();
+    } catch (err) {
+      if (this.#child === child) {
+        this.#child = null;
+      }
+      throw err;
+    }
+    return child;
+  }
+}
@@ -3,13 +3,20 @@
 // license that can be found in the LICENSE file.
 
 import EventEmitter from 'events';
+import { CanceledError, Context } from '@sabl/context';
 import { StorageKind, StorageMode } from '@sabl/storage-pool';
 import { IsolationLevel, TxnOptions } from '@sabl/txn';
+import { SavepointTxn } from './savepoint-txn';
+import { asError } from './row-stream';
 
 // Type-only imports:
-import type { IContext } from '@sabl/context';
+import type { CanceledCallback, IContext } from '@sabl/context';
 import type { DbConn, DbTxn, Result, Rows, Row } from '@sabl/db-api';
 import type { DriverTxn } from './driver';
+import type { ParamNormalizer } from './param-normalizer';
+
+// Largest delay supported by setTimeout
+const MAX_TIMER_DELAY = 2 ** 31 - 1;
 
 /** Optional config interface to control the behavior of {@link SqlTxn} */
 export interface SqlTxnConfig {
@@ -24,6 +31,27 @@ export interface SqlTxnConfig {
    */
   readonly startTransactionVerb?: string;
 
+  /**
+   * Implement to override default 'COMMIT' statement
+   */
+  readonly commitVerb?: string;
+
+  /**
+   * Implement to override default 'ROLLBACK' statement
+   */
+  readonly rollbackVerb?: string;
+
+  /**
+   * Implement to control how the isolation level is applied:
+   *  - `'set'` (default): Execute a separate SET TRANSACTION
+   *    ISOLATION LEVEL statement before the start statement
+   *  - `'start'`: Append an ISOLATION LEVEL clause to the
+   *    start statement
+   *  - `'none'`: Execute no statement. Supported isolation
+   *    levels are inherent to the platform
+   */
+  readonly isolationLevelSyntax?: 'set' | 'start' | 'none';
+
   /**
    * Implement to indicate which isolation levels are supported.
    * IsolationLevel.default is always supported and skips SET
@@ -31,6 +59,20 @@ export interface SqlTxnConfig {
    */
   supportsIsolationLevel?(level: IsolationLevel): boolean;
 
+  /**
+   * Implement to support nested transactions using
+   * SAVEPOINT, RELEASE SAVEPOINT, and ROLLBACK TO SAVEPOINT
+   * statements. Ignored if `beginNestedTxn` is implemented.
+   */
+  readonly useSavepoints?: boolean;
+
+  /**
+   * Implement to automatically roll back the transaction if it
+   * has not been committed or rolled back within this many
+   * milliseconds after it is started.
+   */
+  readonly timeout?: number;
+
   /**
    * Implement to support nested transactions.
    */
@@ -39,6 +81,121 @@ export interface SqlTxnConfig {
     ctx: IContext,
     opts?: TxnOptions
   ): Promise<DbTxn>;
+
+  /**
+   * Implement to generate the complete sequence of statements
+   * used to start a transaction. Overrides `startTransactionVerb`,
+   * `isolationLevelSyntax`, `supportsIsolationLevel`, and
+   * `supportsReadOnly`. Throw to reject unsupported options.
+   */
+  beginStatements?(opts: TxnOptions | undefined): string[];
+
+  /**
+   * Implement to generate the complete sequence of statements
+   * used to commit a transaction. Overrides `commitVerb`.
+   */
+  commitStatements?(opts: TxnOptions | undefined): string[];
+
+  /**
+   * Implement to generate the complete sequence of statements
+   * used to roll back a transaction. Overrides `rollbackVerb`.
+   */
+  rollbackStatements?(opts: TxnOptions | undefined): string[];
+
+  /**
+   * Implement to normalize parameter values before they are passed
+   * to the connection by `exec`, `query`, and `queryRow`, including
+   * those of nested savepoint transactions. See
+   * {@link createParamNormalizer}. Note that {@link DbQueue} and
+   * {@link DbPoolBase} do not normalize parameters, so drivers must
+   * apply the normalizer in their own connection methods to cover
+   * statements executed outside of a transaction.
+   */
+  readonly paramNormalizer?: ParamNormalizer;
+}
+
+/**
+ * The lifecycle state of a {@link SqlTxn}:
+ *  - `'pending'`: Not yet started
+ *  - `'active'`: Started and not yet resolved
+ *  - `'committed'`: COMMIT statement(s) succeeded
+ *  - `'rolledBack'`: ROLLBACK statement(s) succeeded, whether
+ *    requested by the client or due to cancellation or timeout
+ *  - `'failed'`: A start, COMMIT, or ROLLBACK statement failed
+ */
+export type TxnState =
+  | 'pending'
+  | 'active'
+  | 'committed'
+  | 'rolledBack'
+  | 'failed';
+
+/** The final outcome of a {@link SqlTxn}, provided with `'complete'` */
+export interface TxnOutcome {
+  /** The final state of the transaction */
+  readonly state: TxnState;
+
+  /**
+   * The error that caused the transaction to fail, or that caused
+   * it to be rolled back automatically due to cancellation or
+   * timeout. Null if the transaction was resolved normally.
+   */
+  readonly err: Error | null;
+}
+
+/** A handler registered with `onBeforeCommit` or `onAfterCommit` */
+export type TxnHook = (txn: SqlTxn) => Promise<void> | void;
+
+/**
+ * Error thrown by operations on a {@link SqlTxn}
+ * which was rolled back because it exceeded its
+ * timeout or deadline.
+ */
+export class TxnTimeoutError extends Error {
+  constructor() {
+    super('Transaction timed out');
+    this.name = 'TxnTimeoutError';
+  }
+}
+
+const ctxKeyTxnDeadline = Symbol('TxnDeadline');
+
+/**
+ * Set the deadline by which any {@link SqlTxn} started
+ * with the returned context must be resolved.
+ */
+export function withTxnDeadline(ctx: IContext, deadline: Date): Context {
+  return Context.as(ctx).withValue(ctxKeyTxnDeadline, deadline);
+}
+
+/** Get the transaction deadline from the context, if any */
+export function getTxnDeadline(ctx: IContext): Date | null {
+  return <Date | null>ctx.value(ctxKeyTxnDeadline) || null;
+}
+
+/**
+ * Get the ANSI SQL key word(s) for the provided
+ * isolation level.
+ */
+export function isolationLevelKeyword(level: IsolationLevel): string {
+  switch (level) {
+    case IsolationLevel.readUncommitted:
+      return 'READ UNCOMMITTED';
+    case IsolationLevel.readCommitted:
+      return 'READ COMMITTED';
+    case IsolationLevel.writeCommitted:
+      return 'WRITE COMMITTED';
+    case IsolationLevel.repeatableRead:
+      return 'REPEATABLE READ';
+    case IsolationLevel.snapshot:
+      return 'SNAPSHOT';
+    case IsolationLevel.serializable:
+      return 'SERIALIZABLE';
+    case IsolationLevel.linearizable:
+      return 'LINEARIZABLE';
+    default:
+      throw new Error('Unsupported isolation level');
+  }
 }
 
 /**
@@ -46,15 +203,61 @@ export interface SqlTxnConfig {
  * which executes ANSI SQL commands on the connection provided
  * to the constructor to set transaction options,
  * start the transaction, and commit it or roll it back.
+ *
+ * If the context provided to the constructor is canceled while
+ * the transaction is open, the transaction is automatically
+ * rolled back and emits `'complete'`. The same occurs if the
+ * transaction exceeds the `timeout` in the config or the
+ * deadline set on the context with {@link withTxnDeadline},
+ * after which all operations reject with {@link TxnTimeoutError}.
+ *
+ * In addition to `'complete'`, emits `'beforeCommit'` before
+ * running before-commit handlers, `'commit'` after the COMMIT
+ * statement(s) succeed, `'rollback'` after the ROLLBACK statement(s)
+ * succeed, and `'error'` if a COMMIT or ROLLBACK statement or an
+ * after-commit handler fails. `'error'` is only emitted if there
+ * is at least one listener.
+ *
+ * Listeners for `'complete'` receive the transaction and a
+ * {@link TxnOutcome} describing its final state.
  */
 export class SqlTxn extends EventEmitter implements DriverTxn {
   #closed = false;
   #started = false;
+  #state: TxnState = 'pending';
+  #err: Error | null = null;
+  #child: SavepointTxn | null = null;
+  #timedOut = false;
+  #committing = false;
+  readonly #beforeCommit: TxnHook[] = [];
+  readonly #afterCommit: TxnHook[] = [];
+  #onCancel: CanceledCallback | null = null;
+  #timer: ReturnType<typeof setTimeout> | null = null;
   readonly #opts: TxnOptions | undefined;
   readonly #con: DbConn;
   readonly #config: SqlTxnConfig;
   readonly #ctx: IContext;
 
+  /** Check the state and stats of a SqlTxn */
+  static stats(txn: DbTxn): {
+    state: TxnState;
+    err: Error | null;
+    timedOut: boolean;
+    committing: boolean;
+    nested: boolean;
+  } {
+    if (txn instanceof SqlTxn) {
+      return {
+        state: txn.#state,
+        err: txn.#err,
+        timedOut: txn.#timedOut,
+        committing: txn.#committing,
+        nested: txn.#child != null,
+      };
+    }
+    throw new Error('txn is not a SqlTxn');
+  }
+
   /** Create and start a {@link SqlTxn} */
   static async start(
     ctx: IContext,
@@ -79,7 +282,10 @@ export class SqlTxn extends EventEmitter implements DriverTxn {
     this.#opts = opts;
     this.#config = config || {};
 
-    if ('beginNestedTxn' in this.#config) {
+    if (
+      'beginNestedTxn' in this.#config ||
+      this.#config.useSavepoints === true
+    ) {
       Object.defineProperty(this, 'beginTxn', {
         value: this._beginTxn,
         configurable: false,
@@ -91,11 +297,19 @@ export class SqlTxn extends EventEmitter implements DriverTxn {
     return StorageMode.txn;
   }
 
+  /** The current lifecycle state of the transaction */
+  get state(): TxnState {
+    return this.#state;
+  }
+
   get kind(): string {
     return StorageKind.rdb;
   }
 
   #checkStatus() {
+    if (this.#timedOut) {
+      throw new TxnTimeoutError();
+    }
     if (this.#closed) {
       throw new Error('Transaction is already closed');
     }
@@ -123,72 +337,138 @@ export class SqlTxn extends EventEmitter implements DriverTxn {
    * isolation level.
    */
   isolationLevelKeyword(level: IsolationLevel): string {
-    switch (level) {
-      case IsolationLevel.readUncommitted:
-        return 'READ UNCOMMITTED';
-      case IsolationLevel.readCommitted:
-        return 'READ COMMITTED';
-      case IsolationLevel.writeCommitted:
-        return 'WRITE COMMITTED';
-      case IsolationLevel.repeatableRead:
-        return 'REPEATABLE READ';
-      case IsolationLevel.snapshot:
-        return 'SNAPSHOT';
-      case IsolationLevel.serializable:
-        return 'SERIALIZABLE';
-      case IsolationLevel.linearizable:
-        return 'LINEARIZABLE';
-      default:
-        throw new Error('Unsupported isolation level');
+    return isolationLevelKeyword(level);
+  }
+
+  /**
+   * Get the statements used to start the transaction,
+   * using `beginStatements` from the config if provided
+   */
+  beginStatements(): string[] {
+    const opts = this.#opts;
+    const config = this.#config;
+
+    if (typeof config.beginStatements === 'function') {
+      return config.beginStatements(opts);
+    }
+
+    let setCmd: string | null = null;
+    let startCmd = config.startTransactionVerb || 'START TRANSACTION';
+
+    if (opts != null) {
+      const level = opts.isolationLevel;
+      if (level != null && level != IsolationLevel.default) {
+        if (!this.supportsIsolationLevel(level)) {
+          throw new Error('Unsupported isolation level');
+        }
+        const keyWord = this.isolationLevelKeyword(level);
+        switch (config.isolationLevelSyntax || 'set') {
+          case 'set':
+            setCmd = `SET TRANSACTION ISOLATION LEVEL ${keyWord}`;
+            break;
+          case 'start':
+            startCmd += ` ISOLATION LEVEL ${keyWord}`;
+            break;
+          default:
+            // Isolation level is inherent to the platform
+            break;
+        }
+      }
+    }
+
+    if (opts != null && typeof opts.readOnly === 'boolean') {
+      if (this.supportsReadOnly()) {
+        startCmd += opts.readOnly === true ? ' READ ONLY' : ' READ WRITE';
+      } else if (opts.readOnly === true) {
+        throw new Error('Read only transactions not supported');
+      } else {
+        // Just ignoring readOnly === false if underlying
+        // driver does not support readOnly mode
+      }
+    }
+
+    return setCmd != null ? [setCmd, startCmd] : [startCmd];
+  }
+
+  /**
+   * Get the statements used to commit the transaction,
+   * using `commitStatements` from the config if provided
+   */
+  commitStatements(): string[] {
+    const config = this.#config;
+    if (typeof config.commitStatements === 'function') {
+      return config.commitStatements(this.#opts);
+    }
+    return [config.commitVerb || 'COMMIT'];
+  }
+
+  /**
+   * Get the statements used to roll back the transaction,
+   * using `rollbackStatements` from the config if provided
+   */
+  rollbackStatements(): string[] {
+    const config = this.#config;
+    if (typeof config.rollbackStatements === 'function') {
+      return config.rollbackStatements(this.#opts);
     }
+    return [config.rollbackVerb || 'ROLLBACK'];
   }
 
   async start(): Promise<void> {
     const con = this.#con;
-    const opts = this.#opts;
     const ctx = this.#ctx;
 
     try {
-      if (opts != null) {
-        const level = opts.isolationLevel;
-        if (level != null && level != IsolationLevel.default) {
-          if (!this.supportsIsolationLevel(level)) {
-            throw new Error('Unsupported isolation level');
-          }
-          const keyWord = this.isolationLevelKeyword(level);
-          await con.exec(ctx, `SET TRANSACTION ISOLATION LEVEL ${keyWord}`);
-        }
+      const deadline = this.#deadline();
+      if (deadline != null && deadline <= Date.now()) {
+        throw new TxnTimeoutError();
       }
 
-      let startCmd = this.#config.startTransactionVerb || 'START TRANSACTION';
-      if (opts != null && typeof opts.readOnly === 'boolean') {
-        if (this.supportsReadOnly()) {
-          startCmd += opts.readOnly === true ? ' READ ONLY' : ' READ WRITE';
-        } else if (opts.readOnly === true) {
-          throw new Error('Read only transactions not supported');
-        } else {
-          // Just ignoring readOnly === false if underlying
-          // driver does not support readOnly mode
-        }
+      for (const sql of this.beginStatements()) {
+        await con.exec(ctx, sql);
       }
 
-      await con.exec(ctx, startCmd);
-
       this.#started = true;
+      this.#state = 'active';
+
+      const clr = ctx.canceler;
+      if (clr?.canceled) {
+        // Canceled while the begin statements were running.
+        // The callback would never fire, so roll back now
+        this.#cancel(new CanceledError());
+        return;
+      }
+      if (clr != null) {
+        clr.onCancel((this.#onCancel = this.#cancel.bind(this)));
+      }
+      if (deadline != null) {
+        const delay = Math.max(0, deadline - Date.now());
+        // Node fires timers with delays it cannot represent
+        // after 1 ms, so skip the timer for such deadlines
+        if (delay <= MAX_TIMER_DELAY) {
+          this.#timer = setTimeout(this.#timeout.bind(this), delay);
+        }
+      }
       return;
     } catch (err) {
       this.#closed = true;
+      this.#fail(err);
       throw err;
     }
   }
 
+  #params(params: unknown[]): unknown[] {
+    const normalize = this.#config.paramNormalizer;
+    return typeof normalize === 'function' ? normalize(params) : params;
+  }
+
   async exec(
     ctx: IContext,
     sql: string,
     ...params: unknown[]
   ): Promise<Result> {
     this.#checkStatus();
-    return this.#con.exec(ctx, sql, ...params);
+    return this.#con.exec(ctx, sql, ...this.#params(params));
   }
 
   async queryRow(
@@ -197,42 +477,226 @@ export class SqlTxn extends EventEmitter implements DriverTxn {
     ...params: unknown[]
   ): Promise<Row | null> {
     this.#checkStatus();
-    return this.#con.queryRow(ctx, sql, ...params);
+    return this.#con.queryRow(ctx, sql, ...this.#params(params));
   }
 
   async query(ctx: IContext, sql: string, ...params: unknown[]): Promise<Rows> {
     this.#checkStatus();
-    return this.#con.query(ctx, sql, ...params);
+    return this.#con.query(ctx, sql, ...this.#params(params));
+  }
+
+  /**
+   * Register a handler to run before the transaction is committed.
+   * Handlers run in the order they were registered. If a handler
+   * throws or rejects, the commit is vetoed: the transaction is
+   * rolled back and `commit()` rejects with the handler's error.
+   */
+  onBeforeCommit(fn: TxnHook): void {
+    this.#beforeCommit.push(fn);
+  }
+
+  /**
+   * Register a handler to run only after the COMMIT statement(s)
+   * have succeeded. Handlers run in the order they were registered,
+   * after `'commit'` and `'complete'` are emitted. Errors thrown by
+   * handlers do not affect the result of `commit()`, but are emitted
+   * as `'error'` events.
+   */
+  onAfterCommit(fn: TxnHook): void {
+    this.#afterCommit.push(fn);
   }
 
   async commit(): Promise<void> {
     this.#checkStatus();
+    if (this.#child != null) {
+      throw new Error('Cannot commit while a nested transaction is open');
+    }
+    if (this.#committing) {
+      throw new Error('Transaction is already committing');
+    }
+    this.#committing = true;
+
+    this.emit('beforeCommit', this);
+    try {
+      for (const fn of this.#beforeCommit) {
+        await fn(this);
+      }
+    } catch (err) {
+      // Commit vetoed
+      this.#committing = false;
+      if (!this.#closed) {
+        await this.#rollback(this.#ctx).catch(() => undefined);
+      }
+      throw err;
+    }
+
+    // Could have been canceled or rolled back while
+    // before-commit handlers were running
+    this.#committing = false;
+    this.#checkStatus();
+
     this.#closed = true;
+    this.#clearListeners();
     const ctx = this.#ctx;
 
     try {
-      await this.#con.exec(ctx, 'COMMIT');
-    } finally {
-      this.emit('complete', this);
+      for (const sql of this.commitStatements()) {
+        await this.#con.exec(ctx, sql);
+      }
+    } catch (err) {
+      this.#fail(err);
+      this.#emitError(err);
+      this.#complete();
+      throw err;
+    }
+
+    this.#state = 'committed';
+    this.emit('commit', this);
+    this.#complete();
+
+    for (const fn of this.#afterCommit) {
+      try {
+        await fn(this);
+      } catch (err) {
+        this.#emitError(err);
+      }
     }
   }
 
   async rollback(): Promise<void> {
     this.#checkStatus();
+    return this.#rollback(this.#ctx);
+  }
+
+  async #rollback(ctx: IContext): Promise<void> {
+    if (this.#child != null) {
+      // Rolling back the transaction discards all savepoints
+      SavepointTxn.abandon(this.#child);
+    }
     this.#closed = true;
-    const ctx = this.#ctx;
+    this.#clearListeners();
 
     try {
-      await this.#con.exec(ctx, 'ROLLBACK');
-    } finally {
-      this.emit('complete', this);
+      for (const sql of this.rollbackStatements()) {
+        await this.#con.exec(ctx, sql);
+      }
+    } catch (err) {
+      this.#fail(err);
+      this.#emitError(err);
+      this.#complete();
+      throw err;
+    }
+
+    this.#state = 'rolledBack';
+    this.emit('rollback', this);
+    this.#complete();
+  }
+
+  #fail(err: unknown): void {
+    this.#state = 'failed';
+    this.#err = asError(err);
+  }
+
+  #complete(): void {
+    const outcome: TxnOutcome = { state: this.#state, err: this.#err };
+    this.emit('complete', this, outcome);
+  }
+
+  #emitError(err: unknown): void {
+    // EventEmitter throws if 'error' is emitted with no listeners
+    if (this.listenerCount('error') > 0) {
+      this.emit('error', err);
+    }
+  }
+
+  #cancel(err: Error): void {
+    if (this.#closed) {
+      return;
+    }
+    this.#err = err;
+
+    // Context may already be canceled, so use the background
+    // context to ensure the rollback itself can proceed
+    this.#rollback(Context.background).catch(() => {
+      // Nothing to do. Connection will be released
+      // by the 'complete' event regardless.
+    });
+  }
+
+  #timeout(): void {
+    this.#timer = null;
+    if (this.#closed) {
+      return;
     }
+    this.#timedOut = true;
+    this.#cancel(new TxnTimeoutError());
   }
 
-  protected _beginTxn(
+  /**
+   * Get the effective deadline as epoch milliseconds: the earlier
+   * of the configured timeout and the deadline on the context
+   */
+  #deadline(): number | null {
+    let deadline: number | null = null;
+    const timeout = this.#config.timeout;
+    if (typeof timeout === 'number') {
+      deadline = Date.now() + timeout;
+    }
+    const ctxDeadline = getTxnDeadline(this.#ctx);
+    if (ctxDeadline != null) {
+      const ms = ctxDeadline.getTime();
+      deadline = deadline == null ? ms : Math.min(deadline, ms);
+    }
+    return deadline;
+  }
+
+  #clearListeners(): void {
+    if (this.#onCancel != null) {
+      this.#ctx.canceler!.off(this.#onCancel);
+      this.#onCancel = null;
+    }
+    if (this.#timer != null) {
+      clearTimeout(this.#timer);
+      this.#timer = null;
+    }
+  }
+
+  protected async _beginTxn(
     ctx: IContext,
     opts?: TxnOptions | undefined
   ): Promise<DbTxn> {
-    return this.#config.beginNestedTxn!(this.#con, ctx, opts);
+    if (typeof this.#config.beginNestedTxn === 'function') {
+      return this.#config.beginNestedTxn(this.#con, ctx, opts);
+    }
+
+    this.#checkStatus();
+    if (this.#child != null) {
+      throw new Error('A nested transaction is already open');
+    }
+
+    // Reserve the child slot before the SAVEPOINT statement
+    // runs, so that concurrent calls to beginTxn or commit
+    // see the nested transaction as already open
+    const child = new SavepointTxn(
+      ctx,
+      this.#con,
+      opts,
+      this.#config.paramNormalizer
+    );
+    this.#child = child;
+    child.on('complete', () => {
+      if (this.#child === child) {
+        this.#child = null;
+      }
+    });
+    try {
+      await child.start();
+    } catch (err) {
+      if (this.#child === child) {
+        this.#child = null;
+      }
+      throw err;
+    }
+    return child;
   }
 }
@@ -0,0 +1,132 @@
+// Copyright 2022 Joshua Honig. All rights reserved.
+// Use of this source code is governed by a MIT
+// license that can be found in the LICENSE file.
+
+import { IsolationLevel, TxnOptions } from '@sabl/txn';
+
+// Type-only imports:
+import type { SqlTxnConfig } from './sql-txn';
+
+/** Create a supportsIsolationLevel implementation from a list of levels */
+function isolationLevels(
+  ...levels: IsolationLevel[]
+): (level: IsolationLevel) => boolean {
+  const supported = new Set(levels);
+  return (level: IsolationLevel) => supported.has(level);
+}
+
+/**
+ * Create commitStatements / rollbackStatements implementations which
+ * restore the session isolation level to READ COMMITTED after the
+ * transaction if a different isolation level was set
+ */
+function resetIsolationLevel(
+  verb: string
+): (opts: TxnOptions | undefined) => string[] {
+  return (opts: TxnOptions | undefined) => {
+    const level = opts?.isolationLevel;
+    if (
+      level == null ||
+      level == IsolationLevel.default ||
+      level == IsolationLevel.readCommitted
+    ) {
+      return [verb];
+    }
+    return [verb, 'SET TRANSACTION ISOLATION LEVEL READ COMMITTED'];
+  };
+}
+
+/**
+ * SQLite locking behavior for `BEGIN`. See
+ * https://www.sqlite.org/lang_transaction.html
+ */
+export type SqliteBeginBehavior = 'deferred' | 'immediate' | 'exclusive';
+
+/**
+ * {@link SqlTxnConfig} for SQLite. SQLite transactions are always
+ * serializable, so no isolation level statement is executed.
+ * READ ONLY transactions are not supported.
+ */
+export function sqliteTxnConfig(
+  behavior: SqliteBeginBehavior = 'deferred'
+): SqlTxnConfig {
+  return Object.freeze({
+    startTransactionVerb: `BEGIN ${behavior.toUpperCase()}`,
+    isolationLevelSyntax: 'none',
+    supportsReadOnly: false,
+    supportsIsolationLevel: isolationLevels(IsolationLevel.serializable),
+    useSavepoints: true,
+  });
+}
+
+/**
+ * Ready-made {@link SqlTxnConfig} presets which generate
+ * the correct transaction statements for common platforms
+ */
+export const SqlTxnDialect = Object.freeze({
+  /**
+   * PostgreSQL: isolation level and access mode are both set in the
+   * `START TRANSACTION` statement. READ UNCOMMITTED is accepted by
+   * Postgres but behaves as READ COMMITTED.
+   */
+  postgres: <SqlTxnConfig>Object.freeze({
+    isolationLevelSyntax: 'start',
+    supportsReadOnly: true,
+    supportsIsolationLevel: isolationLevels(
+      IsolationLevel.readUncommitted,
+      IsolationLevel.readCommitted,
+      IsolationLevel.repeatableRead,
+      IsolationLevel.serializable
+    ),
+    useSavepoints: true,
+  }),
+
+  /**
+   * MySQL / MariaDB: isolation level is set with a separate
+   * `SET TRANSACTION` statement, which applies only to the
+   * next transaction started in the session.
+   */
+  mysql: <SqlTxnConfig>Object.freeze({
+    isolationLevelSyntax: 'set',
+    supportsReadOnly: true,
+    supportsIsolationLevel: isolationLevels(
+      IsolationLevel.readUncommitted,
+      IsolationLevel.readCommitted,
+      IsolationLevel.repeatableRead,
+      IsolationLevel.serializable
+    ),
+    useSavepoints: true,
+  }),
+
+  /**
+   * SQLite with default `BEGIN DEFERRED` behavior.
+   * See {@link sqliteTxnConfig}.
+   */
+  sqlite: sqliteTxnConfig('deferred'),
+
+  /**
+   * Microsoft SQL Server: uses `BEGIN TRANSACTION`, `COMMIT TRANSACTION`,
+   * and `ROLLBACK TRANSACTION`. READ ONLY transactions are not supported.
+   * SNAPSHOT isolation must be enabled on the database.
+   *
+   * `SET TRANSACTION ISOLATION LEVEL` is session-scoped on SQL Server
+   * and remains in effect after the transaction ends. To avoid leaking
+   * the level into later transactions on a pooled connection, the
+   * commit and rollback statements reset the level to READ COMMITTED,
+   * the SQL Server default, whenever another level was requested.
+   */
+  sqlServer: <SqlTxnConfig>Object.freeze({
+    startTransactionVerb: 'BEGIN TRANSACTION',
+    commitStatements: resetIsolationLevel('COMMIT TRANSACTION'),
+    rollbackStatements: resetIsolationLevel('ROLLBACK TRANSACTION'),
+    isolationLevelSyntax: 'set',
+    supportsReadOnly: false,
+    supportsIsolationLevel: isolationLevels(
+      IsolationLevel.readUncommitted,
+      IsolationLevel.readCommitted,
+      IsolationLevel.repeatableRead,
+      IsolationLevel.snapshot,
+      IsolationLevel.serializable
+    ),
+  }),
+});
@@ -0,0 +1,156 @@
+// Copyright 2022 Joshua Honig. All rights reserved.
+// Use of this source code is governed by a MIT
+// license that can be found in the LICENSE file.
+
+import { wait } from '@sabl/async';
+import { SqlTxn } from './sql-txn';
+
+// Type-only imports:
+import type { IContext } from '@sabl/context';
+import type { DbConn, DbTxn } from '@sabl/db-api';
+import type { TxnOptions } from '@sabl/txn';
+import type { SqlTxnConfig } from './sql-txn';
+
+/** Options to control the behavior of {@link runTxn} */
+export interface TxnRunnerOptions {
+  /** Options for each transaction attempt */
+  readonly txnOptions?: TxnOptions;
+
+  /** Config for each {@link SqlTxn} attempt */
+  readonly config?: SqlTxnConfig;
+
+  /**
+   * Maximum number of attempts, including the
+   * first attempt. Defaults to 3.
+   */
+  readonly maxAttempts?: number;
+
+  /**
+   * Implement to indicate whether an error is transient, such as
+   * a serialization failure, deadlock, or lock timeout. Only
+   * transient errors are retried. If not provided, no errors
+   * are retried.
+   */
+  isTransient?(err: unknown): boolean;
+
+  /**
+   * Implement to return the number of milliseconds to wait
+   * before the next attempt. `attempt` is the number of the
+   * attempt which just failed, starting at 1. Defaults to
+   * exponential backoff starting at 10 ms, capped at 1 second.
+   */
+  backoff?(attempt: number, err: unknown): number;
+}
+
+/** Default backoff for {@link runTxn} */
+function defaultBackoff(attempt: number): number {
+  return Math.min(1000, 10 * 2 ** (attempt - 1));
+}
+
+/** Wait for `ms` milliseconds, or until `ctx` is canceled */
+function waitOrCancel(ctx: IContext, ms: number): Promise<void> {
+  const clr = ctx.canceler;
+  if (clr == null) {
+    return wait(ms);
+  }
+  return new Promise<void>((resolve) => {
+    const done = () => {
+      clearTimeout(timer);
+      clr.off(done);
+      resolve();
+    };
+    const timer = setTimeout(done, ms);
+    clr.onCancel(done);
+  });
+}
+
+/**
+ * Run `fn` inside a {@link SqlTxn} started on `con`. Commits the
+ * transaction if `fn` resolves, or rolls it back if `fn` rejects.
+ * If `fn` itself commits or rolls back the transaction, the runner
+ * does not attempt to do so again. If the transaction is rolled
+ * back because `ctx` was canceled or the transaction timed out,
+ * the runner throws the cancellation or timeout error even if
+ * `fn` resolved.
+ *
+ * If an attempt fails, including while starting or committing
+ * the transaction, and `isTransient` returns true for the error,
+ * the entire unit of work is retried with a new transaction, up to
+ * `maxAttempts`. Each attempt whose transaction started emits
+ * `'complete'` exactly once before the next attempt begins. A
+ * transaction which fails to start emits no events. No further
+ * attempts are made once `ctx` is canceled, including while
+ * waiting out the backoff, and the last error is thrown instead.
+ */
+export async function runTxn<T>(
+  ctx: IContext,
+  con: DbConn,
+  fn: (txn: DbTxn) => Promise<T>,
+  options?: TxnRunnerOptions
+): Promise<T> {
+  const opts = options || {};
+  const maxAttempts = opts.maxAttempts ?? 3;
+  if (maxAttempts < 1) {
+    throw new Error('maxAttempts must be at least 1');
+  }
+
+  for (let attempt = 1; ; attempt++) {
+    const txn = new SqlTxn(ctx, con, opts.txnOptions, opts.config);
+    let started = false;
+    let complete = false;
+    const pComplete = new Promise<void>((resolve) =>
+      txn.on('complete', () => {
+        complete = true;
+        resolve();
+      })
+    );
+
+    try {
+      await txn.start();
+      started = true;
+
+      const result = await fn(txn);
+      const { state, err } = SqlTxn.stats(txn);
+      if (err != null && state !== 'committed') {
+        // Rolled back by cancellation or timeout while fn was
+        // running. Wait for the rollback to finish, then fail
+        if (!complete) {
+          await pComplete;
+        }
+        throw err;
+      }
+      if (!complete) {
+        await txn.commit();
+      }
+      return result;
+    } catch (err) {
+      if (started && !complete) {
+        try {
+          await txn.rollback();
+        } catch {
+          // Report the original error
+        }
+      }
+
+      if (attempt >= maxAttempts) {
+        throw err;
+      }
+      if (typeof opts.isTransient !== 'function' || !opts.isTransient(err)) {
+        throw err;
+      }
+
+      const clr = ctx.canceler;
+      if (clr?.canceled) {
+        throw err;
+      }
+
+      const delay = (opts.backoff || defaultBackoff)(attempt, err);
+      if (delay > 0) {
+        await waitOrCancel(ctx, delay);
+        if (clr?.canceled) {
+          throw err;
+        }
+      }
+    }
+  }
+}
@@ -0,0 +1,144 @@
+// Copyright 2022 Joshua Honig. All rights reserved.
+// Use of this source code is governed by a MIT
+// license that can be found in the LICENSE file.
+
+// Type-only imports:
+import type { ColumnInfo } from '@sabl/db-api';
+
+/**
+ * Convert a raw, non-null driver value
+ * for a column to its client representation
+ */
+export type ValueConverter = (value: unknown, column: ColumnInfo) => unknown;
+
+/**
+ * A registry of {@link ValueConverter}s keyed by
+ * {@link ColumnInfo.typeName}. Type names are matched
+ * exactly, and then in lower case.
+ */
+export interface ValueConverters {
+  readonly [typeName: string]: ValueConverter;
+}
+
+/**
+ * Combine several converter registries. Converters in later
+ * registries take precedence, so driver defaults can be listed
+ * first and followed by per-query overrides.
+ */
+export function combineConverters(
+  ...registries: (ValueConverters | null | undefined)[]
+): ValueConverters {
+  const out: { [typeName: string]: ValueConverter } = {};
+  for (const reg of registries) {
+    if (reg != null) {
+      Object.assign(out, reg);
+    }
+  }
+  return Object.freeze(out);
+}
+
+/** Find the converter for a column, if any */
+export function findConverter(
+  converters: ValueConverters,
+  column: ColumnInfo
+): ValueConverter | null {
+  const typeName = column.typeName;
+  if (typeName == null) {
+    return null;
+  }
+  return converters[typeName] || converters[typeName.toLowerCase()] || null;
+}
+
+/**
+ * Commonly used {@link ValueConverter}s. Each throws
+ * if the value cannot be converted.
+ */
+export const StandardConverters = Object.freeze({
+  /** Convert any value to a string */
+  string(value: unknown): string {
+    if (value instanceof Date) {
+      return value.toISOString();
+    }
+    return String(value);
+  },
+
+  /** Convert an integer string or number to a bigint */
+  bigint(value: unknown): bigint {
+    switch (typeof value) {
+      case 'bigint':
+        return value;
+      case 'number':
+      case 'string':
+        return BigInt(value);
+    }
+    throw new Error(`Cannot convert ${typeof value} to bigint`);
+  },
+
+  /** Convert a numeric string or bigint to a number */
+  number(value: unknown): number {
+    if (typeof value === 'number') {
+      return value;
+    }
+    const n = Number(value);
+    if (isNaN(n)) {
+      throw new Error(`Cannot convert ${String(value)} to number`);
+    }
+    return n;
+  },
+
+  /** Convert a date string or epoch milliseconds to a Date */
+  date(value: unknown): Date {
+    if (value instanceof Date) {
+      return value;
+    }
+    if (typeof value === 'string' || typeof value === 'number') {
+      const d = new Date(value);
+      if (!isNaN(d.getTime())) {
+        return d;
+      }
+    }
+    throw new Error(`Cannot convert ${String(value)} to Date`);
+  },
+
+  /** Parse a JSON string or buffer */
+  json(value: unknown): unknown {
+    if (typeof value === 'string') {
+      return JSON.parse(value);
+    }
+    if (value instanceof Uint8Array) {
+      return JSON.parse(Buffer.from(value).toString('utf8'));
+    }
+    return value;
+  },
+
+  /**
+   * Convert a number, numeric string, or single-byte
+   * buffer such as a `BIT(1)` value to a boolean
+   */
+  boolean(value: unknown): boolean {
+    switch (typeof value) {
+      case 'boolean':
+        return value;
+      case 'number':
+      case 'bigint':
+        return value != 0;
+      case 'string':
+        switch (value.toLowerCase()) {
+          case '1':
+          case 'true':
+          case 't':
+            return true;
+          case '0':
+          case 'false':
+          case 'f':
+            return false;
+        }
+        break;
+      default:
+        if (value instanceof Uint8Array && value.length == 1) {
+          return value[0] != 0;
+        }
+    }
+    throw new Error(`Cannot convert ${String(value)} to boolean`);
+  },
+});
@@ -0,0 +1,147 @@
+// Copyright 2022 Joshua Honig. All rights reserved.
+// Use of this source code is governed by a MIT
+// license that can be found in the LICENSE file.
+
+import { DerivedRows, first, RowStream, scalar, single, toArray } from '$';
+
+function newRows(cnt: number, end = true): [RowStream, () => boolean] {
+  const rs = new RowStream();
+  const ctrl = rs.controller;
+  let canceled = false;
+  ctrl.on('cancel', () => {
+    canceled = true;
+    queueMicrotask(() => ctrl.end());
+  });
+
+  ctrl.setColumns([
+    { name: 'id', typeName: 'number', nullable: false },
+    { name: 'code', typeName: 'string', nullable: false },
+  ]);
+  for (let i = 1; i <= cnt; i++) {
+    ctrl.pushArray([i, `c${i}`]);
+  }
+  if (end) {
+    ctrl.end();
+  }
+  return [rs, () => canceled];
+}
+
+describe('toArray', () => {
+  it('reads all rows and closes', async () => {
+    const [rs] = newRows(3);
+    const rows = await toArray(rs);
+
+    expect(rows.map((r) => r[0])).toEqual([1, 2, 3]);
+    expect(RowStream.isClosed(rs)).toBe(true);
+  });
+
+  it('returns empty array if no rows', async () => {
+    const [rs] = newRows(0);
+    expect(await toArray(rs)).toEqual([]);
+  });
+
+  it('allows exactly maxRows', async () => {
+    const [rs] = newRows(3);
+    expect((await toArray(rs, { maxRows: 3 })).length).toBe(3);
+  });
+
+  it('cancels and throws if more than maxRows', async () => {
+    const [rs, canceled] = newRows(5, false);
+
+    await expect(toArray(rs, { maxRows: 3 })).rejects.toThrow(
+      'Query returned more than 3 rows'
+    );
+    expect(canceled()).toBe(true);
+    expect(RowStream.isClosed(rs)).toBe(true);
+  });
+
+  it('cancels and truncates if requested', async () => {
+    const [rs, canceled] = newRows(5, false);
+
+    const rows = await toArray(rs, { maxRows: 3, truncate: true });
+
+    expect(rows.map((r) => r[0])).toEqual([1, 2, 3]);
+    expect(canceled()).toBe(true);
+  });
+
+  it('rejects negative maxRows', async () => {
+    const [rs] = newRows(0);
+    await expect(toArray(rs, { maxRows: -1 })).rejects.toThrow(
+      'maxRows cannot be negative'
+    );
+  });
+
+  it('supports derived rows', async () => {
+    const [rs] = newRows(3);
+    const ids = await toArray(DerivedRows.from(rs).mapTo((r) => r.id));
+    expect(ids).toEqual([1, 2, 3]);
+  });
+});
+
+describe('first', () => {
+  it('returns first row and cancels the rest', async () => {
+    const [rs, canceled] = newRows(3, false);
+
+    const row = await first(rs);
+
+    expect(row).toEqual([1, 'c1']);
+    expect(canceled()).toBe(true);
+    expect(RowStream.isClosed(rs)).toBe(true);
+  });
+
+  it('returns null if no rows', async () => {
+    const [rs] = newRows(0);
+    expect(await first(rs)).toBe(null);
+  });
+});
+
+describe('single', () => {
+  it('returns the only row', async () => {
+    const [rs] = newRows(1);
+    expect(await single(rs)).toEqual([1, 'c1']);
+    expect(RowStream.isClosed(rs)).toBe(true);
+  });
+
+  it('throws if no rows', async () => {
+    const [rs] = newRows(0);
+    await expect(single(rs)).rejects.toThrow('Query returned no rows');
+  });
+
+  it('cancels and throws if more than one row', async () => {
+    const [rs, canceled] = newRows(3, false);
+
+    await expect(single(rs)).rejects.toThrow(
+      'Query returned more than one row'
+    );
+    expect(canceled()).toBe(true);
+    expect(RowStream.isClosed(rs)).toBe(true);
+  });
+});
+
+describe('scalar', () => {
+  it('returns first column of the only row', async () => {
+    const [rs] = newRows(1);
+    expect(await scalar<number>(rs)).toBe(1);
+  });
+
+  it('throws if no rows', async () => {
+    const [rs] = newRows(0);
+    await expect(scalar(rs)).rejects.toThrow('Query returned no rows');
+  });
+
+  it('throws if more than one row', async () => {
+    const [rs] = newRows(2);
+    await expect(scalar(rs)).rejects.toThrow(
+      'Query returned more than one row'
+    );
+  });
+
+  it('throws if no columns', async () => {
+    const rs = new RowStream();
+    rs.controller.setColumns([]);
+    rs.controller.pushArray([]);
+    rs.controller.end();
+
+    await expect(scalar(rs)).rejects.toThrow('Query returned no columns');
+  });
+});
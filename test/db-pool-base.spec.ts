@@ -0,0 +1,212 @@
+// Copyright 2022 Joshua Honig. All rights reserved.
+// Use of this source code is governed by a MIT
+// license that can be found in the LICENSE file.
+
+import { wait } from '@sabl/async';
+import { Context } from '@sabl/context';
+import { DbPool } from '@sabl/db-api';
+import { StorageKind, StorageMode } from '@sabl/storage-pool';
+
+import { DbPoolBase, DbQueue, DriverConn } from '$';
+import { inspectPromise } from './fixtures/utils';
+import { MockDriverConn } from './fixtures/mock-driver-conn';
+
+class TestPool extends DbPoolBase {
+  readonly created: MockDriverConn[] = [];
+  destroyed = 0;
+  endRows = false;
+
+  protected async createConn(): Promise<DriverConn> {
+    const con = new MockDriverConn();
+    con.endRows = this.endRows;
+    this.created.push(con);
+    return con;
+  }
+
+  protected async destroyConn(): Promise<void> {
+    this.destroyed++;
+  }
+}
+
+describe('DbPoolBase', () => {
+  describe('StorageApi', () => {
+    it('returns kind = rdb', () => {
+      const pool = new TestPool();
+      expect(pool.kind).toEqual(StorageKind.rdb);
+    });
+
+    it('returns mode = pool', () => {
+      const pool = new TestPool();
+      expect(pool.mode).toEqual(StorageMode.pool);
+    });
+  });
+
+  describe('exec', () => {
+    it('borrows and returns a connection', async () => {
+      const ctx = Context.background;
+      const pool = new TestPool();
+
+      const pExec = pool.exec(ctx, 'a', 5);
+      await wait(1);
+      expect(DbPoolBase.borrowed(pool)).toBe(1);
+
+      await pExec;
+      expect(DbPoolBase.borrowed(pool)).toBe(0);
+      expect(pool.created[0].log).toEqual(['start a', 'end a']);
+    });
+
+    it('reuses returned connection', async () => {
+      const ctx = Context.background;
+      const pool = new TestPool();
+
+      await pool.exec(ctx, 'a');
+      await pool.exec(ctx, 'b');
+
+      expect(pool.created.length).toBe(1);
+      expect(pool.created[0].log).toEqual([
+        'start a',
+        'end a',
+        'start b',
+        'end b',
+      ]);
+    });
+
+    it('returns connection on error', async () => {
+      const ctx = Context.background;
+      const pool = new TestPool();
+
+      await expect(pool.exec(ctx, 'FAIL')).rejects.toThrow('exec failed');
+      expect(DbPoolBase.borrowed(pool)).toBe(0);
+    });
+  });
+
+  describe('queryRow', () => {
+    it('borrows and returns a connection', async () => {
+      const ctx = Context.background;
+      const pool = new TestPool();
+
+      await pool.queryRow(ctx, 'a');
+
+      expect(DbPoolBase.borrowed(pool)).toBe(0);
+      expect(pool.created[0].log).toEqual(['queryRow a']);
+    });
+  });
+
+  describe('query', () => {
+    it('returns connection when rows complete', async () => {
+      const ctx = Context.background;
+      const pool = new TestPool();
+
+      const rows = await pool.query(ctx, 'a');
+      expect(DbPoolBase.borrowed(pool)).toBe(1);
+
+      pool.created[0].controllers[0].end();
+      expect(DbPoolBase.borrowed(pool)).toBe(0);
+
+      await rows.close();
+    });
+
+    it('returns connection if rows already complete', async () => {
+      const ctx = Context.background;
+      const pool = new TestPool();
+      pool.endRows = true;
+
+      await pool.query(ctx, 'a');
+      expect(DbPoolBase.borrowed(pool)).toBe(0);
+    });
+
+    it('returns connection once when rows fail', async () => {
+      const ctx = Context.background;
+      const pool = new TestPool();
+
+      const rows = await pool.query(ctx, 'a');
+      let completed = 0;
+      rows.on('complete', () => completed++);
+
+      pool.created[0].controllers[0].error(new Error('query failed'));
+      expect(completed).toBe(1);
+      expect(DbPoolBase.borrowed(pool)).toBe(0);
+
+      await expect(rows.close()).resolves.toBeUndefined();
+      expect(DbPoolBase.borrowed(pool)).toBe(0);
+    });
+  });
+
+  describe('beginTxn', () => {
+    it('returns connection when transaction completes', async () => {
+      const ctx = Context.background;
+      const pool = new TestPool();
+
+      const txn = await pool.beginTxn(ctx);
+      expect(DbPoolBase.borrowed(pool)).toBe(1);
+
+      await txn.commit();
+      expect(DbPoolBase.borrowed(pool)).toBe(0);
+      expect(pool.created[0].log).toEqual([
+        'start START TRANSACTION',
+        'end START TRANSACTION',
+        'start COMMIT',
+        'end COMMIT',
+      ]);
+    });
+  });
+
+  describe('conn', () => {
+    it('returns a DbQueue which is returned on close', async () => {
+      const ctx = Context.background;
+      const pool = new TestPool();
+
+      const con = await pool.conn(ctx);
+      expect(con).toBeInstanceOf(DbQueue);
+      expect(DbPoolBase.borrowed(pool)).toBe(1);
+
+      await con.exec(ctx, 'a');
+      await con.close();
+
+      expect(DbPoolBase.borrowed(pool)).toBe(0);
+    });
+  });
+
+  describe('close', () => {
+    it('waits for borrowed connections', async () => {
+      const ctx = Context.background;
+      const pool = new TestPool();
+
+      const con = await pool.conn(ctx);
+      const pClose = inspectPromise(pool.close());
+
+      await wait(5);
+      expect(pClose.done).toBe(false);
+
+      await con.close();
+      await pClose;
+
+      expect(pool.destroyed).toBe(1);
+    });
+
+    it('returns same promise if already closing', async () => {
+      const pool = new TestPool();
+      expect(pool.close()).toBe(pool.close());
+    });
+
+    it('rejects operations after close', async () => {
+      const ctx = Context.background;
+      const pool = new TestPool();
+      await pool.close();
+
+      await expect(pool.conn(ctx)).rejects.toThrow('Pool is closed');
+      await expect(pool.exec(ctx, 'a')).rejects.toThrow('Pool is closed');
+      await expect(pool.queryRow(ctx, 'a')).rejects.toThrow('Pool is closed');
+      await expect(pool.query(ctx, 'a')).rejects.toThrow('Pool is closed');
+      await expect(pool.beginTxn(ctx)).rejects.toThrow('Pool is closed');
+    });
+  });
+
+  describe('borrowed', () => {
+    it('throws for non-DbPoolBase', () => {
+      expect(() => DbPoolBase.borrowed(<DbPool>null!)).toThrow(
+        'not a DbPoolBase'
+      );
+    });
+  });
+});
@@ -0,0 +1,255 @@
+// Copyright 2022 Joshua Honig. All rights reserved.
+// Use of this source code is governed by a MIT
+// license that can be found in the LICENSE file.
+
+import { wait } from '@sabl/async';
+import { Context } from '@sabl/context';
+import { DbConn } from '@sabl/db-api';
+import { StorageKind, StorageMode } from '@sabl/storage-pool';
+
+import { DbQueue } from '$';
+import { inspectPromise } from './fixtures/utils';
+import { MockDriverConn } from './fixtures/mock-driver-conn';
+
+describe('DbQueue', () => {
+  describe('StorageApi', () => {
+    it('returns kind = rdb', () => {
+      const q = new DbQueue(new MockDriverConn());
+      expect(q.kind).toEqual(StorageKind.rdb);
+    });
+
+    it('returns mode = conn', () => {
+      const q = new DbQueue(new MockDriverConn());
+      expect(q.mode).toEqual(StorageMode.conn);
+    });
+  });
+
+  describe('exec', () => {
+    it('runs operations in order', async () => {
+      const ctx = Context.background;
+      const con = new MockDriverConn();
+      const q = new DbQueue(con);
+
+      await Promise.all([
+        q.exec(ctx, 'a', 10),
+        q.exec(ctx, 'b', 1),
+        q.exec(ctx, 'c', 5),
+      ]);
+
+      expect(con.log).toEqual([
+        'start a',
+        'end a',
+        'start b',
+        'end b',
+        'start c',
+        'end c',
+      ]);
+    });
+
+    it('rejects failed operation and continues', async () => {
+      const ctx = Context.background;
+      const con = new MockDriverConn();
+      const q = new DbQueue(con);
+
+      const pFail = q.exec(ctx, 'FAIL', 1);
+      const pNext = q.exec(ctx, 'b');
+
+      await expect(pFail).rejects.toThrow('exec failed');
+      await expect(pNext).resolves.toEqual({ rowsAffected: 0, lastId: 0 });
+
+      expect(con.log).toEqual(['start FAIL', 'fail FAIL', 'start b', 'end b']);
+    });
+
+    it('removes canceled operation from queue', async () => {
+      const con = new MockDriverConn();
+      const q = new DbQueue(con);
+      const [ctx, cancel] = Context.cancel();
+
+      const pFirst = q.exec(Context.background, 'a', 10);
+      const pCanceled = q.exec(ctx, 'b');
+      const pLast = q.exec(Context.background, 'c');
+
+      expect(DbQueue.size(q)).toBe(2);
+
+      cancel();
+
+      await expect(pCanceled).rejects.toThrow('canceled');
+      expect(DbQueue.size(q)).toBe(1);
+
+      await pFirst;
+      await pLast;
+
+      expect(con.log).toEqual(['start a', 'end a', 'start c', 'end c']);
+    });
+
+    it('rejects operation if context is already canceled', async () => {
+      const con = new MockDriverConn();
+      const q = new DbQueue(con);
+      const [ctx, cancel] = Context.cancel();
+      cancel();
+
+      await expect(q.exec(ctx, 'a')).rejects.toThrow('canceled');
+      expect(DbQueue.size(q)).toBe(0);
+      expect(con.log).toEqual([]);
+    });
+  });
+
+  describe('queryRow', () => {
+    it('runs in order', async () => {
+      const ctx = Context.background;
+      const con = new MockDriverConn();
+      const q = new DbQueue(con);
+
+      await Promise.all([q.exec(ctx, 'a', 5), q.queryRow(ctx, 'b')]);
+
+      expect(con.log).toEqual(['start a', 'end a', 'queryRow b']);
+    });
+  });
+
+  describe('query', () => {
+    it('holds queue until rows complete', async () => {
+      const ctx = Context.background;
+      const con = new MockDriverConn();
+      const q = new DbQueue(con);
+
+      const rows = await q.query(ctx, 'a');
+      const pNext = inspectPromise(q.exec(ctx, 'b'));
+
+      await wait(5);
+      expect(pNext.done).toBe(false);
+      expect(con.log).toEqual(['query a']);
+
+      con.controllers[0].end();
+      await pNext;
+
+      expect(con.log).toEqual(['query a', 'start b', 'end b']);
+      await rows.close();
+    });
+
+    it('does not hold queue for rows already complete', async () => {
+      const ctx = Context.background;
+      const con = new MockDriverConn();
+      con.endRows = true;
+      const q = new DbQueue(con);
+
+      await q.query(ctx, 'a');
+      await q.exec(ctx, 'b');
+
+      expect(con.log).toEqual(['query a', 'start b', 'end b']);
+    });
+  });
+
+  describe('beginTxn', () => {
+    it('holds queue until transaction completes', async () => {
+      const ctx = Context.background;
+      const con = new MockDriverConn();
+      const q = new DbQueue(con);
+
+      const txn = await q.beginTxn(ctx);
+      const pNext = inspectPromise(q.exec(ctx, 'b'));
+
+      await txn.exec(ctx, 'in txn');
+      await wait(5);
+      expect(pNext.done).toBe(false);
+
+      await txn.commit();
+      await pNext;
+
+      expect(con.log).toEqual([
+        'start START TRANSACTION',
+        'end START TRANSACTION',
+        'start in txn',
+        'end in txn',
+        'start COMMIT',
+        'end COMMIT',
+        'start b',
+        'end b',
+      ]);
+    });
+  });
+
+  describe('close', () => {
+    it('waits for queued operations and emits complete', async () => {
+      const ctx = Context.background;
+      const con = new MockDriverConn();
+      const q = new DbQueue(con);
+      let completeSignaled = false;
+      q.on('complete', () => (completeSignaled = true));
+
+      q.exec(ctx, 'a', 5);
+      q.exec(ctx, 'b', 5);
+
+      const pClose = inspectPromise(q.close());
+      expect(DbQueue.isClosed(q)).toBe(true);
+      expect(completeSignaled).toBe(false);
+
+      await pClose;
+
+      expect(completeSignaled).toBe(true);
+      expect(con.log).toEqual(['start a', 'end a', 'start b', 'end b']);
+    });
+
+    it('emits complete immediately if idle', async () => {
+      const q = new DbQueue(new MockDriverConn());
+      let completeSignaled = false;
+      q.on('complete', () => (completeSignaled = true));
+
+      await q.close();
+
+      expect(completeSignaled).toBe(true);
+    });
+
+    it('rolls back open transaction', async () => {
+      const ctx = Context.background;
+      const con = new MockDriverConn();
+      const q = new DbQueue(con);
+
+      const txn = await q.beginTxn(ctx);
+      await q.close();
+
+      await expect(txn.commit()).rejects.toThrow(
+        'Transaction is already closed'
+      );
+      expect(con.log).toEqual([
+        'start START TRANSACTION',
+        'end START TRANSACTION',
+        'start ROLLBACK',
+        'end ROLLBACK',
+      ]);
+    });
+
+    it('returns same promise if already closing', async () => {
+      const ctx = Context.background;
+      const q = new DbQueue(new MockDriverConn());
+
+      q.exec(ctx, 'a', 5);
+      const pClose1 = inspectPromise(q.close());
+      const pClose2 = inspectPromise(q.close());
+
+      await pClose2;
+      expect(pClose1.done).toBe(true);
+
+      await expect(q.close()).resolves.toBe(undefined);
+    });
+
+    it('rejects operations after close', async () => {
+      const ctx = Context.background;
+      const q = new DbQueue(new MockDriverConn());
+      await q.close();
+
+      await expect(q.exec(ctx, 'a')).rejects.toThrow('Connection is closed');
+      await expect(q.queryRow(ctx, 'a')).rejects.toThrow(
+        'Connection is closed'
+      );
+      await expect(q.query(ctx, 'a')).rejects.toThrow('Connection is closed');
+      await expect(q.beginTxn(ctx)).rejects.toThrow('Connection is closed');
+    });
+  });
+
+  describe('static', () => {
+    it('throws for non-DbQueue', () => {
+      expect(() => DbQueue.isClosed(<DbConn>null!)).toThrow('not a DbQueue');
+      expect(() => DbQueue.size(<DbConn>null!)).toThrow('not a DbQueue');
+    });
+  });
+});
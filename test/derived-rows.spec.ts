@@ -0,0 +1,330 @@
+// Copyright 2022 Joshua Honig. All rights reserved.
+// Use of this source code is governed by a MIT
+// license that can be found in the LICENSE file.
+
+import { Context } from '@sabl/context';
+import { Row } from '@sabl/db-api';
+
+import { DerivedRows, DriverRows, RowController, RowStream } from '$';
+
+const cols = [
+  { name: 'id', typeName: 'number', nullable: false },
+  { name: 'code', typeName: 'string', nullable: false },
+];
+
+function newRows(cnt: number, end = true): [RowStream, RowController] {
+  const rs = new RowStream();
+  const ctrl = rs.controller;
+  ctrl.setColumns(cols);
+  for (let i = 1; i <= cnt; i++) {
+    ctrl.pushArray([i, `c${i}`]);
+  }
+  if (end) {
+    ctrl.end();
+  }
+  return [rs, ctrl];
+}
+
+async function collect<T>(rows: DerivedRows<T>): Promise<T[]> {
+  const out: T[] = [];
+  for await (const row of rows) {
+    out.push(row);
+  }
+  return out;
+}
+
+function ids(rows: Row[]): unknown[] {
+  return rows.map((r) => r[0]);
+}
+
+describe('DerivedRows', () => {
+  describe('from', () => {
+    it('reads all source rows', async () => {
+      const [rs] = newRows(3);
+      const rows = DerivedRows.from(rs);
+
+      expect(rows.columns).toEqual(['id', 'code']);
+      expect(rows.columnTypes).toEqual(cols);
+      expect(ids(await collect(rows))).toEqual([1, 2, 3]);
+      expect(RowStream.isClosed(rs)).toBe(true);
+    });
+
+    it('is a DriverRows', async () => {
+      const [rs] = newRows(1);
+      const rows: DriverRows = DerivedRows.from(rs).map((r) => r);
+
+      expect(await rows.next()).toBe(true);
+      expect(rows.row).toEqual([1, 'c1']);
+    });
+  });
+
+  describe('map', () => {
+    it('replaces each row', async () => {
+      const [rs] = newRows(2);
+      const rows = DerivedRows.from(rs).map((r, i) =>
+        Row.fromArray([<number>r.id * 10, `${r.code}:${i}`], ['id', 'code'])
+      );
+
+      expect((await collect(rows)).map((r) => Row.toArray(r))).toEqual([
+        [10, 'c1:0'],
+        [20, 'c2:1'],
+      ]);
+    });
+  });
+
+  describe('mapTo', () => {
+    it('maps to any type', async () => {
+      const [rs] = newRows(2);
+      const rows = DerivedRows.from(rs).mapTo(async (r) => String(r.code));
+
+      expect(await collect(rows)).toEqual(['c1', 'c2']);
+    });
+
+    it('uses provided columns', () => {
+      const [rs] = newRows(0);
+      const newCols = [{ name: 'code', typeName: 'string', nullable: false }];
+      const rows = DerivedRows.from(rs).mapTo((r) => r.code, newCols);
+
+      expect(rows.columns).toEqual(['code']);
+      expect(rows.columnTypes).toEqual(newCols);
+    });
+  });
+
+  describe('filter', () => {
+    it('includes matching rows', async () => {
+      const [rs] = newRows(5);
+      const rows = DerivedRows.from(rs).filter((r) => <number>r.id % 2 == 1);
+
+      expect(ids(await collect(rows))).toEqual([1, 3, 5]);
+    });
+  });
+
+  describe('validate', () => {
+    it('checks columns once', async () => {
+      const [rs] = newRows(3);
+      let checks = 0;
+      const rows = DerivedRows.from(rs).validate((columnTypes) => {
+        checks++;
+        expect(columnTypes).toEqual(cols);
+      });
+
+      expect(ids(await collect(rows))).toEqual([1, 2, 3]);
+      expect(checks).toBe(1);
+    });
+
+    it('checks columns of an empty result', async () => {
+      const [rs] = newRows(0);
+      const rows = DerivedRows.from(rs).validate(() => {
+        throw new Error('bad columns');
+      });
+
+      await expect(rows.next()).rejects.toThrow('bad columns');
+      expect(rows.err?.message).toBe('bad columns');
+    });
+
+    it('closes source on failure', async () => {
+      const [rs, ctrl] = newRows(3, false);
+      ctrl.on('cancel', () => queueMicrotask(() => ctrl.end()));
+      const rows = DerivedRows.from(rs).validate(() => {
+        throw new Error('bad columns');
+      });
+
+      await expect(rows.next()).rejects.toThrow('bad columns');
+      expect(RowStream.isClosed(rs)).toBe(true);
+    });
+  });
+
+  describe('take', () => {
+    it('takes first rows and cancels source', async () => {
+      const [rs, ctrl] = newRows(5, false);
+      let canceled = false;
+      ctrl.on('cancel', () => {
+        canceled = true;
+        queueMicrotask(() => ctrl.end());
+      });
+
+      const rows = DerivedRows.from(rs).take(2);
+
+      expect(ids(await collect(rows))).toEqual([1, 2]);
+      expect(canceled).toBe(true);
+      expect(RowStream.isClosed(rs)).toBe(true);
+    });
+
+    it('cancels source as soon as last row is taken', async () => {
+      const [rs, ctrl] = newRows(5, false);
+      let canceled = false;
+      ctrl.on('cancel', () => {
+        canceled = true;
+        queueMicrotask(() => ctrl.end());
+      });
+
+      const rows = DerivedRows.from(rs).take(2);
+      expect(await rows.next()).toBe(true);
+      expect(canceled).toBe(false);
+      expect(await rows.next()).toBe(true);
+      expect(rows.row[0]).toBe(2);
+      expect(canceled).toBe(true);
+      expect(RowStream.isClosed(rs)).toBe(true);
+
+      expect(await rows.next()).toBe(false);
+    });
+
+    it('rejects invalid count', () => {
+      const [rs] = newRows(0);
+      expect(() => DerivedRows.from(rs).take(-1)).toThrow(
+        'take count must be a non-negative integer'
+      );
+    });
+  });
+
+  describe('skip', () => {
+    it('skips first rows', async () => {
+      const [rs] = newRows(5);
+      const rows = DerivedRows.from(rs).skip(3);
+
+      expect(ids(await collect(rows))).toEqual([4, 5]);
+    });
+
+    it('returns no rows if source is shorter', async () => {
+      const [rs] = newRows(2);
+      const rows = DerivedRows.from(rs).skip(3);
+
+      expect(await collect(rows)).toEqual([]);
+    });
+  });
+
+  describe('batch', () => {
+    it('groups rows', async () => {
+      const [rs] = newRows(5);
+      const rows = DerivedRows.from(rs).batch(2);
+
+      expect((await collect(rows)).map(ids)).toEqual([[1, 2], [3, 4], [5]]);
+    });
+
+    it('rejects zero size', () => {
+      const [rs] = newRows(0);
+      expect(() => DerivedRows.from(rs).batch(0)).toThrow(
+        'batch size must be at least 1'
+      );
+    });
+  });
+
+  describe('chaining', () => {
+    it('composes operators', async () => {
+      const [rs] = newRows(10);
+      const rows = DerivedRows.from(rs)
+        .filter((r) => <number>r.id % 2 == 0)
+        .skip(1)
+        .take(3)
+        .mapTo((r) => <number>r.id)
+        .batch(2);
+
+      expect(await collect(rows)).toEqual([[4, 6], [8]]);
+    });
+  });
+
+  describe('close', () => {
+    it('closes and cancels the source', async () => {
+      const [rs, ctrl] = newRows(3, false);
+      let canceled = false;
+      ctrl.on('cancel', () => {
+        canceled = true;
+        queueMicrotask(() => ctrl.end());
+      });
+
+      const rows = DerivedRows.from(rs).map((r) => r);
+      await rows.next();
+      await rows.close();
+
+      expect(canceled).toBe(true);
+      expect(RowStream.isClosed(rs)).toBe(true);
+      expect(await rows.next()).toBe(false);
+    });
+
+    it('propagates context cancel', async () => {
+      const [ctx, cancel] = Context.cancel();
+      const rs = new RowStream(ctx.canceler);
+      const rows = DerivedRows.from(rs).take(5);
+
+      const test = expect(rows.next()).rejects.toThrow('canceled');
+      cancel();
+
+      await test;
+      expect(rows.err?.message).toMatch('canceled');
+    });
+  });
+
+  describe('complete', () => {
+    it('emits when source completes', async () => {
+      const [rs, ctrl] = newRows(1, false);
+      const rows = DerivedRows.from(rs).take(1);
+      let completed = false;
+      rows.on('complete', () => (completed = true));
+
+      expect(completed).toBe(false);
+      ctrl.end();
+      expect(completed).toBe(true);
+    });
+
+    it('emits if source is already complete', async () => {
+      const [rs] = newRows(1);
+      const rows = DerivedRows.from(rs).skip(0);
+      let completed = false;
+      rows.on('complete', () => (completed = true));
+
+      await Promise.resolve();
+
+      expect(completed).toBe(true);
+      expect(DerivedRows.isComplete(rows)).toBe(true);
+    });
+
+    it('emits on close if source does not emit events', async () => {
+      const source = {
+        columns: [],
+        columnTypes: [],
+        err: null,
+        row: Row.fromArray([], []),
+        next: async () => false,
+        close: async () => undefined,
+        [Symbol.asyncIterator]: () => {
+          throw new Error('not implemented');
+        },
+      };
+      const rows = DerivedRows.from(source);
+      let completed = false;
+      rows.on('complete', () => (completed = true));
+
+      await rows.next();
+
+      expect(completed).toBe(true);
+    });
+  });
+
+  describe('errors', () => {
+    it('closes source and rejects if operator throws', async () => {
+      const [rs, ctrl] = newRows(2, false);
+      ctrl.on('cancel', () => queueMicrotask(() => ctrl.end()));
+      const rows = DerivedRows.from(rs).map(() => {
+        throw new Error('bad map');
+      });
+
+      await expect(rows.next()).rejects.toThrow('bad map');
+      expect(rows.err).toEqual(new Error('bad map'));
+      expect(RowStream.isClosed(rs)).toBe(true);
+    });
+
+    it('rejects concurrent next calls', async () => {
+      const [rs] = newRows(0, false);
+      const rows = DerivedRows.from(rs);
+      rows.next();
+
+      await expect(rows.next()).rejects.toThrow(
+        'Existing next() call has not yet resolved'
+      );
+    });
+
+    it('isComplete throws for non-DerivedRows', () => {
+      expect(() => DerivedRows.isComplete(null!)).toThrow('not a DerivedRows');
+    });
+  });
+});
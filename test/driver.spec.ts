@@ -80,3 +80,86 @@ describe('parseCols', () => {
     expect(cols).toEqual(expected);
   });
 });
+
+describe('parseCols - inference mode', () => {
+  it('classifies values', () => {
+    const cols = parseCols([
+      {
+        s: 'a',
+        n: 1,
+        b: true,
+        big: BigInt(2),
+        d: new Date(),
+        bin: Uint8Array.from([1]),
+        buf: Buffer.from('x'),
+        arr: [1, 2],
+        obj: { a: 1 },
+      },
+    ]);
+
+    expect(cols.map((c) => [c.name, c.typeName])).toEqual([
+      ['s', 'string'],
+      ['n', 'number'],
+      ['b', 'boolean'],
+      ['big', 'bigint'],
+      ['d', 'datetime'],
+      ['bin', 'binary'],
+      ['buf', 'binary'],
+      ['arr', 'json'],
+      ['obj', 'json'],
+    ]);
+    expect(cols.every((c) => !c.nullable)).toBe(true);
+  });
+
+  it('uses later samples for null values', () => {
+    const cols = parseCols([{ a: null }, { a: 'x' }]);
+    expect(cols).toEqual([{ name: 'a', typeName: 'string', nullable: true }]);
+  });
+
+  it('reports unknown if all samples are null', () => {
+    const cols = parseCols([{ a: null }, { a: undefined }]);
+    expect(cols).toEqual([{ name: 'a', typeName: 'unknown', nullable: true }]);
+  });
+
+  it('widens types across samples', () => {
+    const cols = parseCols([
+      { n: 1, j: [1], s: 1 },
+      { n: BigInt(2), j: 'x', s: 'x' },
+      { n: 3, j: 2, s: true },
+    ]);
+
+    expect(cols).toEqual([
+      { name: 'n', typeName: 'bigint', nullable: false },
+      { name: 'j', typeName: 'json', nullable: false },
+      { name: 's', typeName: 'string', nullable: false },
+    ]);
+  });
+
+  it('widens bigint and fractional numbers to number', () => {
+    const cols = parseCols([{ n: BigInt(2) }, { n: 1.5 }, { n: 3 }]);
+    expect(cols).toEqual([{ name: 'n', typeName: 'number', nullable: false }]);
+  });
+
+  it('marks columns missing from any sample as nullable', () => {
+    const cols = parseCols([{ a: 1 }, { a: 2, b: 'x' }, { b: 'y' }]);
+    expect(cols).toEqual([
+      { name: 'a', typeName: 'number', nullable: true },
+      { name: 'b', typeName: 'string', nullable: true },
+    ]);
+  });
+
+  it('only examines sampleSize objects', () => {
+    const cols = parseCols([{ a: 1 }, { a: null }], { sampleSize: 1 });
+    expect(cols).toEqual([{ name: 'a', typeName: 'number', nullable: false }]);
+  });
+
+  it('returns no columns for no samples', () => {
+    expect(parseCols([])).toEqual([]);
+  });
+
+  it('rejects invalid sampleSize', () => {
+    expect(() => parseCols([], { sampleSize: 0 })).toThrow(
+      'sampleSize must be at least 1'
+    );
+  });
+});
@@ -0,0 +1,76 @@
+// Copyright 2022 Joshua Honig. All rights reserved.
+// Use of this source code is governed by a MIT
+// license that can be found in the LICENSE file.
+
+import { wait } from '@sabl/async';
+import { IContext } from '@sabl/context';
+import { DbConn, Result, Row } from '@sabl/db-api';
+import { StorageKind, StorageMode } from '@sabl/storage-pool';
+import { TxnOptions } from '@sabl/txn';
+
+import {
+  DriverConn,
+  DriverRows,
+  DriverTxn,
+  RowController,
+  RowStream,
+  SqlTxn,
+} from '$';
+
+/**
+ * A {@link DriverConn} which records the operations
+ * executed on it. The first param to `exec` is an
+ * optional delay in milliseconds, and the sql text
+ * 'FAIL' causes `exec` to reject.
+ */
+export class MockDriverConn implements DriverConn, DbConn {
+  readonly log: string[] = [];
+  readonly controllers: RowController[] = [];
+  endRows = false;
+
+  get mode(): StorageMode {
+    return StorageMode.conn;
+  }
+
+  get kind(): string {
+    return StorageKind.rdb;
+  }
+
+  async close(): Promise<void> {
+    return Promise.resolve();
+  }
+
+  async exec(ctx: IContext, sql: string, delay = 0): Promise<Result> {
+    this.log.push(`start ${sql}`);
+    if (typeof delay === 'number' && delay > 0) {
+      await wait(delay);
+    }
+    if (sql === 'FAIL') {
+      this.log.push(`fail ${sql}`);
+      throw new Error('exec failed');
+    }
+    this.log.push(`end ${sql}`);
+    return { rowsAffected: 0, lastId: 0 };
+  }
+
+  async queryRow(ctx: IContext, sql: string): Promise<Row | null> {
+    this.log.push(`queryRow ${sql}`);
+    return null;
+  }
+
+  async query(ctx: IContext, sql: string): Promise<DriverRows> {
+    this.log.push(`query ${sql}`);
+    const rows = new RowStream();
+    const ctrl = rows.controller;
+    this.controllers.push(ctrl);
+    ctrl.setColumns([{ name: 'id', typeName: 'number', nullable: false }]);
+    if (this.endRows) {
+      ctrl.end();
+    }
+    return rows;
+  }
+
+  async beginTxn(ctx: IContext, opts?: TxnOptions): Promise<DriverTxn> {
+    return SqlTxn.start(ctx, this, opts);
+  }
+}
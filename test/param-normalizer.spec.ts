@@ -0,0 +1,106 @@
+// Copyright 2022 Joshua Honig. All rights reserved.
+// Use of this source code is governed by a MIT
+// license that can be found in the LICENSE file.
+
+import { createParamNormalizer, normalizeParams } from '$';
+
+describe('normalizeParams', () => {
+  const date = new Date('2022-06-01T12:00:00.000Z');
+  const bytes = new Uint8Array([0xde, 0xad, 0xbe, 0xef]);
+
+  it('passes through values by default', () => {
+    const params = ['a', 1, null, true, 10n, date, bytes];
+    expect(normalizeParams(params)).toEqual(params);
+  });
+
+  it('converts undefined and plain objects by default', () => {
+    expect(
+      normalizeParams([undefined, { a: 1, b: 2n }, Object.create(null)])
+    ).toEqual([null, '{"a":1,"b":"2"}', '{}']);
+  });
+
+  it('normalizes array elements', () => {
+    expect(normalizeParams([[undefined, date]], { date: 'epoch' })).toEqual([
+      [null, date.getTime()],
+    ]);
+  });
+
+  it('converts dates', () => {
+    expect(normalizeParams([date], { date: 'iso' })).toEqual([
+      '2022-06-01T12:00:00.000Z',
+    ]);
+    expect(normalizeParams([date], { date: 'epoch' })).toEqual([
+      date.getTime(),
+    ]);
+  });
+
+  it('converts bigints', () => {
+    expect(normalizeParams([10n], { bigint: 'string' })).toEqual(['10']);
+    expect(normalizeParams([10n], { bigint: 'number' })).toEqual([10]);
+    expect(() => normalizeParams([1, 2n ** 60n], { bigint: 'number' })).toThrow(
+      'Unsupported value for parameter 2: bigint 1152921504606846976 is not a safe integer'
+    );
+  });
+
+  it('converts booleans', () => {
+    expect(normalizeParams([true, false], { boolean: 'number' })).toEqual([
+      1, 0,
+    ]);
+  });
+
+  it('converts bytes', () => {
+    const [buf] = normalizeParams([bytes], { bytes: 'buffer' });
+    expect(Buffer.isBuffer(buf)).toBe(true);
+    expect(normalizeParams([bytes], { bytes: 'base64' })).toEqual(['3q2+7w==']);
+    expect(normalizeParams([bytes], { bytes: 'hex' })).toEqual(['deadbeef']);
+  });
+
+  it('rejects unsupported values', () => {
+    class Thing {}
+    expect(() => normalizeParams(['a', new Thing()])).toThrow(
+      'Unsupported value for parameter 2: Thing'
+    );
+    expect(() => normalizeParams([() => 1])).toThrow(
+      'Unsupported value for parameter 1: function'
+    );
+    expect(() => normalizeParams([Symbol('x')])).toThrow(
+      'Unsupported value for parameter 1: symbol'
+    );
+    expect(() => normalizeParams([1, 2, NaN])).toThrow(
+      'Unsupported value for parameter 3: NaN'
+    );
+    expect(() => normalizeParams([new Date(NaN)])).toThrow(
+      'Unsupported value for parameter 1: invalid Date'
+    );
+  });
+
+  it('rejects by option', () => {
+    expect(() => normalizeParams([undefined], { undefined: 'reject' })).toThrow(
+      'Unsupported value for parameter 1: undefined'
+    );
+    expect(() => normalizeParams([{}], { object: 'reject' })).toThrow(
+      'Unsupported value for parameter 1: Object'
+    );
+  });
+
+  it('rejects objects which cannot be converted to JSON', () => {
+    const obj: { self?: unknown } = {};
+    obj.self = obj;
+    expect(() => normalizeParams([obj])).toThrow(
+      'Unsupported value for parameter 1: cannot convert object to JSON'
+    );
+  });
+});
+
+describe('createParamNormalizer', () => {
+  it('applies convert before built-in rules', () => {
+    class Money {
+      constructor(readonly cents: number) {}
+    }
+    const normalize = createParamNormalizer({
+      convert: (value, index) =>
+        value instanceof Money ? `${index}:${value.cents}` : undefined,
+    });
+    expect(normalize([undefined, new Money(150)])).toEqual([null, '1:150']);
+  });
+});
@@ -0,0 +1,333 @@
+// Copyright 2022 Joshua Honig. All rights reserved.
+// Use of this source code is governed by a MIT
+// license that can be found in the LICENSE file.
+
+import { expandArrayParams, rewritePlaceholders } from '$';
+
+describe('rewritePlaceholders', () => {
+  describe('from ?', () => {
+    it('converts to numbered', () => {
+      const result = rewritePlaceholders(
+        'select * from t where a = ? and b = ?',
+        [1, 'x'],
+        '?',
+        '$1'
+      );
+      expect(result).toEqual({
+        sql: 'select * from t where a = $1 and b = $2',
+        params: [1, 'x'],
+      });
+    });
+
+    it('converts to named', () => {
+      const result = rewritePlaceholders(
+        'select * from t where a = ? and b = ?',
+        [1, 'x'],
+        '?',
+        '@name'
+      );
+      expect(result).toEqual({
+        sql: 'select * from t where a = @p1 and b = @p2',
+        params: { p1: 1, p2: 'x' },
+      });
+    });
+
+    it('rejects wrong parameter count', () => {
+      expect(() => rewritePlaceholders('a = ?', [1, 2], '?', '$1')).toThrow(
+        'Expected 1 parameters, got 2'
+      );
+      expect(() =>
+        rewritePlaceholders('a = ? or b = ?', [1], '?', '$1')
+      ).toThrow('Missing value for parameter 2');
+    });
+  });
+
+  describe('from $1', () => {
+    it('repeats reused parameters for ?', () => {
+      const result = rewritePlaceholders(
+        'a = $2 or b = $1 or c = $2',
+        [1, 2],
+        '$1',
+        '?'
+      );
+      expect(result).toEqual({
+        sql: 'a = ? or b = ? or c = ?',
+        params: [2, 1, 2],
+      });
+    });
+
+    it('renumbers in order of use', () => {
+      const result = rewritePlaceholders(
+        'a = $2 or b = $1',
+        [1, 2],
+        '$1',
+        '$1'
+      );
+      expect(result).toEqual({ sql: 'a = $1 or b = $2', params: [2, 1] });
+    });
+
+    it('ignores $ inside identifiers', () => {
+      const result = rewritePlaceholders(
+        'select a$1, $1 from t$2 where b = $2',
+        [1, 2],
+        '$1',
+        '?'
+      );
+      expect(result).toEqual({
+        sql: 'select a$1, ? from t$2 where b = ?',
+        params: [1, 2],
+      });
+    });
+
+    it('rejects missing parameter', () => {
+      expect(() => rewritePlaceholders('a = $3', [1, 2], '$1', '?')).toThrow(
+        'Missing value for parameter 3'
+      );
+    });
+  });
+
+  describe('from named', () => {
+    it('converts to ?', () => {
+      const result = rewritePlaceholders(
+        'a = :id or b = :name or c = :id',
+        { id: 5, name: 'x', extra: true },
+        ':name',
+        '?'
+      );
+      expect(result).toEqual({
+        sql: 'a = ? or b = ? or c = ?',
+        params: [5, 'x', 5],
+      });
+    });
+
+    it('converts to numbered', () => {
+      const result = rewritePlaceholders(
+        'a = :id or b = :name or c = :id',
+        { id: 5, name: 'x' },
+        ':name',
+        '$1'
+      );
+      expect(result).toEqual({
+        sql: 'a = $1 or b = $2 or c = $1',
+        params: [5, 'x'],
+      });
+    });
+
+    it('converts between prefixes', () => {
+      const result = rewritePlaceholders(
+        'a = @id',
+        { id: null },
+        '@name',
+        ':name'
+      );
+      expect(result).toEqual({ sql: 'a = :id', params: { id: null } });
+    });
+
+    it('rejects missing parameter', () => {
+      expect(() => rewritePlaceholders('a = :id', {}, ':name', '?')).toThrow(
+        'Missing value for parameter :id'
+      );
+    });
+  });
+
+  it('rejects mismatched parameter shape', () => {
+    expect(() => rewritePlaceholders('a = :id', [1], ':name', '?')).toThrow(
+      'Named placeholders require a parameter object'
+    );
+    expect(() => rewritePlaceholders('a = ?', { a: 1 }, '?', '$1')).toThrow(
+      'Positional placeholders require a parameter array'
+    );
+  });
+
+  it('does not treat $ inside identifiers as a dollar quote', () => {
+    const result = rewritePlaceholders(
+      'SELECT price$usd$ FROM t WHERE id = ? AND x$$ = ?',
+      [1, 2],
+      '?',
+      '$1'
+    );
+    expect(result).toEqual({
+      sql: 'SELECT price$usd$ FROM t WHERE id = $1 AND x$$ = $2',
+      params: [1, 2],
+    });
+  });
+
+  describe('skips', () => {
+    const cases: [string, string, string][] = [
+      ['string literals', "'?', 'it''s ?', ?", "'?', 'it''s ?', $1"],
+      ['quoted identifiers', '"a?", `b?`, ?', '"a?", `b?`, $1'],
+      ['line comments', '? -- is it?\n', '$1 -- is it?\n'],
+      ['block comments', '/* what? */ ?', '/* what? */ $1'],
+      [
+        'dollar-quoted strings',
+        '$$ ? $$, $fn$ ? $fn$, ?',
+        '$$ ? $$, $fn$ ? $fn$, $1',
+      ],
+    ];
+
+    for (const [label, sql, expected] of cases) {
+      it(label, () => {
+        const result = rewritePlaceholders(sql, [1], '?', '$1');
+        expect(result).toEqual({ sql: expected, params: [1] });
+      });
+    }
+
+    it('casts', () => {
+      const result = rewritePlaceholders(
+        'select :a::text',
+        { a: 1 },
+        ':name',
+        '$1'
+      );
+      expect(result.sql).toBe('select $1::text');
+    });
+
+    it('backslash escapes if enabled', () => {
+      const sql = '\'it\\\'s ?\', "\\" ?", ?';
+      expect(
+        rewritePlaceholders(sql, [1], '?', '$1', { backslashEscapes: true })
+      ).toEqual({
+        sql: '\'it\\\'s ?\', "\\" ?", $1',
+        params: [1],
+      });
+
+      // Without the option, the literal ends at the backslash
+      expect(rewritePlaceholders(sql, [1], '?', '$1').sql).toBe(
+        '\'it\\\'s $1\', "\\" ?", ?'
+      );
+    });
+
+    it('hash comments if enabled', () => {
+      const sql = '? # is it?\n';
+      expect(
+        rewritePlaceholders(sql, [1], '?', '$1', { hashComments: true })
+      ).toEqual({
+        sql: '$1 # is it?\n',
+        params: [1],
+      });
+    });
+
+    it('bracketed identifiers if enabled', () => {
+      const sql = 'select [a?], [b]]?] from t where c = ?';
+      expect(
+        rewritePlaceholders(sql, [1], '?', '@name', {
+          bracketIdentifiers: true,
+        })
+      ).toEqual({
+        sql: 'select [a?], [b]]?] from t where c = @p1',
+        params: { p1: 1 },
+      });
+    });
+
+    it('system variables', () => {
+      const result = rewritePlaceholders(
+        'select @@ROWCOUNT, @a',
+        { a: 1 },
+        '@name',
+        '?'
+      );
+      expect(result.sql).toBe('select @@ROWCOUNT, ?');
+    });
+  });
+
+  describe('expandArrays', () => {
+    it('leaves arrays unchanged by default', () => {
+      const result = rewritePlaceholders('a in ($1)', [[1, 2]], '$1', '?');
+      expect(result).toEqual({ sql: 'a in (?)', params: [[1, 2]] });
+    });
+
+    it('expands to ?', () => {
+      const result = rewritePlaceholders(
+        'a in (?) and b = ?',
+        [[1, 2, 3], 'x'],
+        '?',
+        '?',
+        { expandArrays: true }
+      );
+      expect(result).toEqual({
+        sql: 'a in (?, ?, ?) and b = ?',
+        params: [1, 2, 3, 'x'],
+      });
+    });
+
+    it('expands reused parameters to numbered', () => {
+      const result = rewritePlaceholders(
+        'a in (:ids) or b in (:ids) or c = :n',
+        { ids: [1, 2], n: 3 },
+        ':name',
+        '$1',
+        { expandArrays: true }
+      );
+      expect(result).toEqual({
+        sql: 'a in ($1, $2) or b in ($1, $2) or c = $3',
+        params: [1, 2, 3],
+      });
+    });
+
+    it('expands to named', () => {
+      const result = expandArrayParams(
+        'a in (@ids) and b = @n',
+        { ids: ['x', 'y'], n: 3 },
+        '@name'
+      );
+      expect(result).toEqual({
+        sql: 'a in (@ids_1, @ids_2) and b = @n',
+        params: { ids_1: 'x', ids_2: 'y', n: 3 },
+      });
+    });
+
+    it('rejects conflicting expanded names', () => {
+      expect(() =>
+        expandArrayParams(
+          'a in (:ids) or b = :ids_1',
+          { ids: [1, 2], ids_1: 3 },
+          ':name'
+        )
+      ).toThrow(
+        'Expanded parameter name ids_1 conflicts with another parameter'
+      );
+    });
+
+    it('rejects empty arrays', () => {
+      expect(() => expandArrayParams('a in (?)', [[]], '?')).toThrow(
+        'Cannot expand empty array for parameter 1'
+      );
+    });
+
+    it('rejects nested arrays', () => {
+      expect(() =>
+        expandArrayParams('a in (:ids)', { ids: [[1]] }, ':name')
+      ).toThrow('Cannot expand nested array for parameter :ids');
+    });
+
+    it('limits expansion size', () => {
+      expect(() =>
+        expandArrayParams('a in ($1)', [[1, 2, 3]], '$1', { maxExpansion: 2 })
+      ).toThrow('Parameter 1 has 3 values, more than the maximum of 2');
+      expect(() =>
+        expandArrayParams('a in ($1)', [new Array(1001).fill(0)], '$1')
+      ).toThrow('more than the maximum of 1000');
+    });
+
+    it('passes syntax options', () => {
+      const result = expandArrayParams(
+        "a in (?) and b = 'x\\' ?'",
+        [[1, 2]],
+        '?',
+        {
+          backslashEscapes: true,
+        }
+      );
+      expect(result).toEqual({
+        sql: "a in (?, ?) and b = 'x\\' ?'",
+        params: [1, 2],
+      });
+    });
+
+    it('rejects invalid maxExpansion', () => {
+      expect(() =>
+        expandArrayParams('a in (?)', [[1]], '?', { maxExpansion: 0 })
+      ).toThrow('maxExpansion must be a positive integer');
+    });
+  });
+});
@@ -0,0 +1,183 @@
+// Copyright 2022 Joshua Honig. All rights reserved.
+// Use of this source code is governed by a MIT
+// license that can be found in the LICENSE file.
+
+import { ColumnInfo } from '@sabl/db-api';
+
+import { decodeRows, RowSchema, RowStream, validateColumns } from '$';
+
+interface Product {
+  id: number;
+  code: string;
+  label: string | null;
+}
+
+const cols: ColumnInfo[] = [
+  { name: 'id', typeName: 'INTEGER', nullable: false },
+  { name: 'product_code', typeName: 'TEXT', nullable: false },
+  { name: 'label', typeName: 'TEXT', nullable: true },
+];
+
+const schema: RowSchema<Product> = {
+  id: ['integer', 'bigint'],
+  code: { column: 'product_code', typeName: 'text' },
+  label: { typeName: 'text', nullable: true },
+};
+
+function newRows(data: unknown[][], columns = cols): RowStream {
+  const rs = new RowStream();
+  rs.controller.setColumns(columns);
+  for (const row of data) {
+    rs.controller.pushArray(row);
+  }
+  rs.controller.end();
+  return rs;
+}
+
+async function collect<T>(rows: AsyncIterable<T>): Promise<T[]> {
+  const out: T[] = [];
+  for await (const row of rows) {
+    out.push(row);
+  }
+  return out;
+}
+
+describe('validateColumns', () => {
+  it('accepts matching columns', () => {
+    expect(() => validateColumns(cols, schema)).not.toThrow();
+  });
+
+  it('ignores extra columns', () => {
+    expect(() => validateColumns(cols, { id: 'integer' })).not.toThrow();
+  });
+
+  it('rejects missing column', () => {
+    expect(() => validateColumns(cols.slice(0, 2), schema)).toThrow(
+      'Column label is missing from the result set'
+    );
+  });
+
+  it('allows missing optional column', () => {
+    expect(() =>
+      validateColumns(cols.slice(0, 2), {
+        ...schema,
+        label: { optional: true },
+      })
+    ).not.toThrow();
+  });
+
+  it('rejects unexpected type', () => {
+    expect(() => validateColumns(cols, { ...schema, id: 'text' })).toThrow(
+      'Column id has type INTEGER, expected text'
+    );
+  });
+
+  it('lists all accepted types', () => {
+    expect(() =>
+      validateColumns(cols, {
+        code: { column: 'product_code', typeName: ['int', 'real'] },
+      })
+    ).toThrow('Column product_code has type TEXT, expected int or real');
+  });
+});
+
+describe('decodeRows', () => {
+  it('decodes plain objects', async () => {
+    const rs = newRows([
+      [1, 'a', 'Apple'],
+      [2, 'b', null],
+    ]);
+
+    const products = await collect(decodeRows(rs, schema));
+
+    expect(products).toEqual([
+      { id: 1, code: 'a', label: 'Apple' },
+      { id: 2, code: 'b', label: null },
+    ]);
+  });
+
+  it('decodes class instances', async () => {
+    class Item {
+      id = 0;
+      code = '';
+      label: string | null = 'none';
+
+      describe(): string {
+        return `${this.id}:${this.code}:${this.label}`;
+      }
+    }
+
+    const rs = newRows([[1, 'a']], cols.slice(0, 2));
+    const items = await collect(
+      decodeRows(rs, { ...schema, label: { optional: true } }, Item)
+    );
+
+    expect(items[0]).toBeInstanceOf(Item);
+    expect(items[0].describe()).toBe('1:a:none');
+  });
+
+  it('sets missing optional properties to undefined', async () => {
+    const rs = newRows([[1, 'a']], cols.slice(0, 2));
+    const products = await collect(
+      decodeRows(rs, { ...schema, label: { optional: true } })
+    );
+
+    expect(products).toEqual([{ id: 1, code: 'a', label: undefined }]);
+  });
+
+  it('fails on column mismatch', async () => {
+    const rs = newRows([[1, 'a', 'Apple']]);
+    const rows = decodeRows(rs, { ...schema, id: 'text' });
+
+    await expect(rows.next()).rejects.toThrow(
+      'Column id has type INTEGER, expected text'
+    );
+    expect(RowStream.isClosed(rs)).toBe(true);
+  });
+
+  it('validates columns of an empty result', async () => {
+    const rs = newRows([], cols.slice(1));
+    const rows = decodeRows(rs, schema);
+
+    await expect(rows.next()).rejects.toThrow(
+      'Column id is missing from the result set'
+    );
+  });
+
+  it('validates columns set after decoding starts', async () => {
+    const rs = new RowStream();
+    const rows = decodeRows(rs, schema);
+    const pNext = rows.next();
+
+    rs.controller.setColumns(cols);
+    rs.controller.pushArray([1, 'a', null]);
+    rs.controller.end();
+
+    expect(await pNext).toBe(true);
+    expect(rows.row).toEqual({ id: 1, code: 'a', label: null });
+
+    const rs2 = new RowStream();
+    const rows2 = decodeRows(rs2, schema);
+    const pNext2 = rows2.next();
+
+    rs2.controller.setColumns(cols.slice(1));
+    rs2.controller.end();
+
+    await expect(pNext2).rejects.toThrow(
+      'Column id is missing from the result set'
+    );
+  });
+
+  it('rejects unexpected null', async () => {
+    const rs = newRows([
+      [1, 'a', null],
+      [2, null, null],
+    ]);
+    const rows = decodeRows(rs, schema);
+
+    expect(await rows.next()).toBe(true);
+    await expect(rows.next()).rejects.toThrow(
+      'Column product_code is null in row 2'
+    );
+  });
+});
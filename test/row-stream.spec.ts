@@ -2,12 +2,26 @@
 // Use of this source code is governed by a MIT
 // license that can be found in the LICENSE file.
 
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Readable } from 'stream';
+import { ReadableStream } from 'stream/web';
 import { CanceledError, Canceler, Context } from '@sabl/context';
 import { Row, Rows } from '@sabl/db-api';
 import { wait } from '@sabl/async';
 import { later, Timeline } from '@sabl/async-test';
 
-import { RowController, RowStream, RowStreamOptions, DriverRows } from '$';
+import {
+  estimateRowSize,
+  estimateValueSize,
+  RowController,
+  RowStream,
+  RowStreamOptions,
+  DriverColumnInfo,
+  DriverRows,
+  StandardConverters,
+} from '$';
 import { inspectPromise } from './fixtures/utils';
 
 function newRows(): [DriverRows, RowController];
@@ -100,6 +114,12 @@ describe('RowStream', () => {
         canPause: true,
         pauseCount: 5,
         resumeCount: 3,
+        bytes: 0,
+        pauseBytes: undefined,
+        resumeBytes: undefined,
+        spilled: 0,
+        pushed: 0,
+        truncated: false,
       });
 
       setCols(ctrl);
@@ -112,6 +132,12 @@ describe('RowStream', () => {
         canPause: true,
         pauseCount: 5,
         resumeCount: 3,
+        bytes: 0,
+        pauseBytes: undefined,
+        resumeBytes: undefined,
+        spilled: 0,
+        pushed: 6,
+        truncated: false,
       });
 
       await rows.next(); // 5
@@ -126,6 +152,12 @@ describe('RowStream', () => {
         canPause: true,
         pauseCount: 5,
         resumeCount: 3,
+        bytes: 0,
+        pauseBytes: undefined,
+        resumeBytes: undefined,
+        spilled: 0,
+        pushed: 6,
+        truncated: false,
       });
     });
 
@@ -182,8 +214,876 @@ describe('RowStream', () => {
         canPause: false,
         pauseCount: undefined,
         resumeCount: undefined,
+        bytes: 0,
+        pauseBytes: undefined,
+        resumeBytes: undefined,
+        spilled: 0,
+        pushed: 0,
+        truncated: false,
       });
     });
+
+    it('requires pauseBytes with resumeBytes', () => {
+      expect(() => new RowStream({ resumeBytes: 10 })).toThrow(
+        'pauseBytes must be provided with resumeBytes'
+      );
+    });
+
+    it('requires pauseBytes to be positive', () => {
+      for (const n of [-232, 0]) {
+        expect(() => new RowStream({ pauseBytes: n })).toThrow(
+          'pauseBytes must be positive'
+        );
+      }
+    });
+
+    it('automatically calculates resumeBytes', () => {
+      const rs = new RowStream({ pauseBytes: 1001 });
+      expect(RowStream.stats(rs).resumeBytes).toBe(500);
+    });
+
+    it('requires resumeBytes to be less than pauseBytes', () => {
+      for (const rb of [2000, 1001, 1000]) {
+        expect(
+          () => new RowStream({ pauseBytes: 1000, resumeBytes: rb })
+        ).toThrow('resumeBytes must be less than pauseBytes');
+      }
+    });
+
+    it('resumeBytes cannot be negative', () => {
+      expect(
+        () => new RowStream({ pauseBytes: 1000, resumeBytes: -1 })
+      ).toThrow('resumeBytes cannot be negative');
+    });
+
+    it('allows pauseBytes without pauseCount', () => {
+      const rs = new RowStream({ pauseBytes: 1000 });
+      const stats = RowStream.stats(rs);
+      expect(stats.canPause).toBe(true);
+      expect(stats.pauseCount).toBeUndefined();
+      expect(stats.pauseBytes).toBe(1000);
+    });
+  });
+
+  describe('pauseBytes', () => {
+    // Each row from putData is estimated at 42 bytes
+    it('tracks buffered bytes', async () => {
+      const [rows, ctrl] = newRows({ pauseBytes: 1000 });
+      setCols(ctrl);
+      putData(ctrl, 3);
+
+      expect(RowStream.stats(rows).bytes).toBe(126);
+
+      await rows.next();
+      expect(RowStream.stats(rows).bytes).toBe(84);
+    });
+
+    it('does not count rows handed directly to next', async () => {
+      const [rows, ctrl] = newRows({ pauseBytes: 1000 });
+      setCols(ctrl);
+
+      const pNext = rows.next();
+      putData(ctrl, 1);
+      await pNext;
+
+      expect(RowStream.stats(rows).bytes).toBe(0);
+    });
+
+    it('pauses and resumes on byte watermarks', async () => {
+      const [rows, ctrl] = newRows({ pauseBytes: 100, resumeBytes: 42 });
+      const msgs: string[] = [];
+      ctrl.on('pause', () => msgs.push('pause'));
+      ctrl.on('resume', () => msgs.push('resume'));
+
+      setCols(ctrl);
+      putData(ctrl, 2); // 84 bytes
+      expect(msgs).toEqual([]);
+
+      putData(ctrl, 1); // 126 bytes
+      expect(msgs).toEqual(['pause']);
+
+      await rows.next(); // 84 bytes
+      expect(msgs).toEqual(['pause']);
+
+      await rows.next(); // 42 bytes
+      expect(msgs).toEqual(['pause', 'resume']);
+    });
+
+    it('pauses on whichever watermark is reached first', () => {
+      const [, ctrl] = newRows({ pauseCount: 100, pauseBytes: 10 });
+      let paused = false;
+      ctrl.on('pause', () => (paused = true));
+
+      setCols(ctrl);
+      putData(ctrl, 1);
+
+      expect(paused).toBe(true);
+    });
+
+    it('resumes only when both watermarks are satisfied', async () => {
+      const [rows, ctrl] = newRows({
+        pauseCount: 3,
+        resumeCount: 2,
+        pauseBytes: 1000,
+        resumeBytes: 42,
+      });
+      let resumed = false;
+      ctrl.on('resume', () => (resumed = true));
+
+      setCols(ctrl);
+      putData(ctrl, 3);
+
+      await rows.next(); // 2 rows, 84 bytes
+      expect(resumed).toBe(false);
+
+      await rows.next(); // 1 row, 42 bytes
+      expect(resumed).toBe(true);
+    });
+
+    it('uses custom size estimator', () => {
+      const [rows, ctrl] = newRows({
+        pauseBytes: 1000,
+        estimateSize: (row: Row) => <number>row[0] * 100,
+      });
+      setCols(ctrl);
+      putData(ctrl, 3);
+
+      expect(RowStream.stats(rows).bytes).toBe(600);
+    });
+
+    it('tracks bytes with only a size estimator', () => {
+      const [rows, ctrl] = newRows({
+        estimateSize: (row: Row) => <number>row[0] * 100,
+      });
+      setCols(ctrl);
+      putData(ctrl, 3);
+
+      expect(RowStream.stats(rows).bytes).toBe(600);
+    });
+
+    it('does not track bytes by default', () => {
+      const [rows, ctrl] = newRows({ pauseCount: 100 });
+      setCols(ctrl);
+      putData(ctrl, 3);
+
+      expect(RowStream.stats(rows).bytes).toBe(0);
+    });
+  });
+
+  describe('spill', () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'sabl-test-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('validates options', () => {
+      expect(() => new RowStream({ spill: { dir } })).toThrow(
+        'spill requires maxRows or maxBytes'
+      );
+      expect(() => new RowStream({ spill: { maxRows: 0 } })).toThrow(
+        'spill.maxRows must be positive'
+      );
+      expect(() => new RowStream({ spill: { maxBytes: -1 } })).toThrow(
+        'spill.maxBytes must be positive'
+      );
+    });
+
+    it('spills rows beyond maxRows to disk', async () => {
+      const [rows, ctrl] = newRows({ spill: { maxRows: 2, dir } });
+      setCols(ctrl);
+      putData(ctrl, 5);
+
+      expect(RowStream.size(rows)).toBe(2);
+      expect(RowStream.stats(rows).spilled).toBe(3);
+      expect(fs.readdirSync(dir).length).toBe(1);
+
+      ctrl.end();
+
+      const ids: unknown[] = [];
+      for await (const row of rows) {
+        ids.push(row[0]);
+      }
+      expect(ids).toEqual(range(5));
+    });
+
+    it('spills rows of pending result sets', async () => {
+      const [rows, ctrl] = newRows({ spill: { maxRows: 2, dir } });
+      setCols(ctrl);
+      putData(ctrl, 1);
+      ctrl.nextResultSet(rows.columnTypes);
+      putData(ctrl, 4, 10);
+      ctrl.end();
+
+      expect(RowStream.size(rows)).toBe(1);
+      expect(fs.readdirSync(dir).length).toBe(1);
+
+      const sets: unknown[][] = [];
+      do {
+        const set: unknown[] = [];
+        for await (const row of rows) {
+          set.push(row[0]);
+        }
+        sets.push(set);
+      } while (await (<RowStream>rows).nextResultSet());
+
+      expect(sets).toEqual([[1], range(4, 11)]);
+      expect(fs.readdirSync(dir).length).toBe(0);
+    });
+
+    it('spills rows beyond maxBytes to disk', () => {
+      // Each row from putData is estimated at 42 bytes
+      const [rows, ctrl] = newRows({ spill: { maxBytes: 100, dir } });
+      setCols(ctrl);
+      putData(ctrl, 5);
+
+      expect(RowStream.size(rows)).toBe(3);
+      expect(RowStream.stats(rows).spilled).toBe(2);
+    });
+
+    it('preserves order while spilled rows remain', async () => {
+      const [rows, ctrl] = newRows({ spill: { maxRows: 2, dir } });
+      setCols(ctrl);
+      putData(ctrl, 5);
+
+      await rows.next(); // 1
+      await rows.next(); // 2
+      await rows.next(); // 3, reads 3 and 4 back from disk
+      expect(RowStream.stats(rows).spilled).toBe(1);
+
+      // Memory has room, but row 5 is still on disk
+      putData(ctrl, 1, 5);
+      expect(RowStream.stats(rows).spilled).toBe(2);
+      ctrl.end();
+
+      const ids: unknown[] = [rows.row[0]];
+      while (await rows.next()) {
+        ids.push(rows.row[0]);
+      }
+      expect(ids).toEqual(range(4, 3));
+    });
+
+    it('preserves value types', async () => {
+      const [rows, ctrl] = newRows({ spill: { maxRows: 1, dir } });
+      ctrl.setColumns([
+        { name: 'a', typeName: 'any', nullable: true },
+        { name: 'b', typeName: 'any', nullable: true },
+      ]);
+
+      const date = new Date(2022, 5, 3, 14, 2, 7, 123);
+      const values = [
+        [date, Buffer.from([1, 2, 3])],
+        [BigInt('12345678901234567890'), 'naïve ☕'],
+        [null, undefined],
+        [{ x: [1, true] }, 3.5],
+      ];
+      for (const v of values) {
+        ctrl.pushArray(v);
+      }
+      ctrl.end();
+
+      const out: unknown[][] = [];
+      for await (const row of rows) {
+        out.push(Row.toArray(row));
+      }
+      expect(out).toEqual(values);
+    });
+
+    it('reads back large files', async () => {
+      const [rows, ctrl] = newRows({ spill: { maxRows: 10, dir } });
+      ctrl.setColumns([{ name: 'text', typeName: 'string', nullable: false }]);
+
+      // About 400 KB on disk, so read back in several chunks
+      const text = 'é'.repeat(1000);
+      for (let i = 0; i < 200; i++) {
+        ctrl.pushArray([`${i}:${text}`]);
+      }
+      ctrl.end();
+
+      let i = 0;
+      for await (const row of rows) {
+        expect(row[0]).toBe(`${i++}:${text}`);
+      }
+      expect(i).toBe(200);
+    });
+
+    it('deletes file when all rows are read', async () => {
+      const [rows, ctrl] = newRows({ spill: { maxRows: 1, dir } });
+      setCols(ctrl);
+      putData(ctrl, 3);
+      ctrl.end();
+
+      while (await rows.next());
+
+      expect(fs.readdirSync(dir)).toEqual([]);
+    });
+
+    it('deletes file on close', async () => {
+      const [rows, ctrl] = newRows({ spill: { maxRows: 1, dir } });
+      setCols(ctrl);
+      putData(ctrl, 3);
+
+      const pClose = rows.close();
+      expect(fs.readdirSync(dir)).toEqual([]);
+
+      ctrl.end();
+      await pClose;
+    });
+
+    it('deletes file on cancel', async () => {
+      const [ctx, cancel] = Context.cancel();
+      const [rows, ctrl] = newRows(ctx.canceler, {
+        spill: { maxRows: 1, dir },
+      });
+      setCols(ctrl);
+      putData(ctrl, 3);
+
+      cancel();
+
+      expect(fs.readdirSync(dir)).toEqual([]);
+      expect(RowStream.stats(rows).spilled).toBe(0);
+    });
+
+    it('counts spilled rows toward pauseCount', () => {
+      const [, ctrl] = newRows({ pauseCount: 4, spill: { maxRows: 2, dir } });
+      let paused = false;
+      ctrl.on('pause', () => (paused = true));
+
+      setCols(ctrl);
+      putData(ctrl, 4);
+
+      expect(paused).toBe(true);
+      ctrl.end();
+    });
+  });
+
+  describe('toReadable', () => {
+    it('emits each row and ends', async () => {
+      const [rows, ctrl] = newRows();
+      setCols(ctrl);
+      putData(ctrl, 3);
+      ctrl.end();
+
+      const ids: unknown[] = [];
+      for await (const row of (<RowStream>rows).toReadable()) {
+        ids.push(row[0]);
+      }
+
+      expect(ids).toEqual(range(3));
+      expect(RowStream.isClosed(rows)).toBe(true);
+    });
+
+    it('emits rows as they arrive', async () => {
+      const [rows, ctrl] = newRows();
+      const readable = (<RowStream>rows).toReadable();
+      const ids: unknown[] = [];
+      readable.on('data', (row: Row) => ids.push(row[0]));
+      const pEnd = new Promise((resolve) => readable.on('end', resolve));
+
+      setCols(ctrl);
+      putData(ctrl, 2);
+      await wait(1);
+      putData(ctrl, 2, 2);
+      ctrl.end();
+      await pEnd;
+
+      expect(ids).toEqual(range(4));
+    });
+
+    it('closes rows on destroy', async () => {
+      const [rows, ctrl] = newRows();
+      let canceled = false;
+      ctrl.on('cancel', () => (canceled = true));
+      setCols(ctrl);
+
+      const readable = (<RowStream>rows).toReadable();
+      readable.destroy();
+      await wait(1);
+
+      expect(canceled).toBe(true);
+      ctrl.end();
+      await wait(1);
+      expect(RowStream.isClosed(rows)).toBe(true);
+    });
+
+    it('emits error if rows fail', async () => {
+      const [rows, ctrl] = newRows();
+      const readable = (<RowStream>rows).toReadable();
+      const pErr = new Promise((resolve) => readable.on('error', resolve));
+      readable.resume();
+
+      ctrl.error(new Error('oh no'));
+
+      expect(await pErr).toEqual(new Error('oh no'));
+    });
+  });
+
+  describe('fromReadable', () => {
+    function newSource(): Readable {
+      return new Readable({ objectMode: true, read: () => undefined });
+    }
+
+    const cols = [
+      { name: 'id', typeName: 'number', nullable: false },
+      { name: 'code', typeName: 'string', nullable: false },
+    ];
+
+    it('consumes object rows and derives columns', async () => {
+      const source = Readable.from([
+        { id: 1, code: 'a' },
+        { id: 2, code: 'b' },
+      ]);
+      const rows = RowStream.fromReadable(source);
+
+      const out: unknown[] = [];
+      for await (const row of rows) {
+        out.push(Row.toObject(row));
+      }
+
+      expect(rows.columnTypes).toEqual(cols);
+      expect(out).toEqual([
+        { id: 1, code: 'a' },
+        { id: 2, code: 'b' },
+      ]);
+    });
+
+    it('consumes array rows with provided columns', async () => {
+      const source = Readable.from([
+        [1, 'a'],
+        [2, 'b'],
+      ]);
+      const rows = RowStream.fromReadable(source, null, { columns: cols });
+
+      const out: unknown[] = [];
+      for await (const row of rows) {
+        out.push(Row.toArray(row));
+      }
+
+      expect(out).toEqual([
+        [1, 'a'],
+        [2, 'b'],
+      ]);
+    });
+
+    it('fails array rows without columns', async () => {
+      const rows = RowStream.fromReadable(Readable.from([[1, 'a']]));
+      await expect(rows.next()).rejects.toThrow('Column info not yet set');
+    });
+
+    it('maps pause and resume to source flow control', async () => {
+      const source = newSource();
+      const rows = RowStream.fromReadable(source, null, {
+        columns: cols,
+        pauseCount: 2,
+        resumeCount: 0,
+      });
+
+      source.push([1, 'a']);
+      source.push([2, 'b']);
+      await wait(1);
+      expect(source.isPaused()).toBe(true);
+
+      await rows.next();
+      await rows.next();
+      expect(source.isPaused()).toBe(false);
+
+      source.push(null);
+      expect(await rows.next()).toBe(false);
+    });
+
+    it('destroys source on close', async () => {
+      const source = newSource();
+      const rows = RowStream.fromReadable(source, null, { columns: cols });
+
+      await rows.close();
+
+      expect(source.destroyed).toBe(true);
+      expect(rows.err).toBe(null);
+    });
+
+    it('destroys source on context cancel', async () => {
+      const [ctx, cancel] = Context.cancel();
+      const source = newSource();
+      RowStream.fromReadable(source, ctx.canceler, { columns: cols });
+
+      cancel();
+
+      expect(source.destroyed).toBe(true);
+    });
+
+    it('rejects with source error', async () => {
+      const source = newSource();
+      const rows = RowStream.fromReadable(source, null, { columns: cols });
+
+      source.destroy(new Error('source failed'));
+
+      await expect(rows.next()).rejects.toThrow('source failed');
+    });
+  });
+
+  describe('toReadableStream', () => {
+    it('emits each row and closes', async () => {
+      const [rows, ctrl] = newRows();
+      setCols(ctrl);
+      putData(ctrl, 3);
+      ctrl.end();
+
+      const reader = (<RowStream>rows).toReadableStream().getReader();
+      const ids: unknown[] = [];
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) {
+          break;
+        }
+        ids.push(value[0]);
+      }
+
+      expect(ids).toEqual(range(3));
+      expect(RowStream.isClosed(rows)).toBe(true);
+    });
+
+    it('pulls only up to desiredSize', async () => {
+      const [rows, ctrl] = newRows();
+      setCols(ctrl);
+      putData(ctrl, 5);
+
+      const stream = (<RowStream>rows).toReadableStream({ highWaterMark: 2 });
+      await wait(1);
+
+      expect(RowStream.size(rows)).toBe(3);
+
+      const reader = stream.getReader();
+      await reader.read();
+      await wait(1);
+
+      expect(RowStream.size(rows)).toBe(2);
+      ctrl.end();
+    });
+
+    it('closes rows on cancel', async () => {
+      const [rows, ctrl] = newRows();
+      let canceled = false;
+      ctrl.on('cancel', () => (canceled = true));
+
+      const stream = (<RowStream>rows).toReadableStream();
+      const pCancel = stream.cancel();
+      expect(canceled).toBe(true);
+
+      ctrl.end();
+      await pCancel;
+      expect(RowStream.isClosed(rows)).toBe(true);
+    });
+
+    it('errors if rows fail', async () => {
+      const [rows, ctrl] = newRows();
+      const reader = (<RowStream>rows).toReadableStream().getReader();
+
+      ctrl.error(new Error('oh no'));
+
+      await expect(reader.read()).rejects.toThrow('oh no');
+    });
+  });
+
+  describe('fromReadableStream', () => {
+    const cols = [
+      { name: 'id', typeName: 'number', nullable: false },
+      { name: 'code', typeName: 'string', nullable: false },
+    ];
+
+    function fromArray(items: unknown[]): ReadableStream<unknown> {
+      return new ReadableStream({
+        start(controller) {
+          for (const item of items) {
+            controller.enqueue(item);
+          }
+          controller.close();
+        },
+      });
+    }
+
+    it('consumes object rows and derives columns', async () => {
+      const rows = RowStream.fromReadableStream(
+        fromArray([
+          { id: 1, code: 'a' },
+          { id: 2, code: 'b' },
+        ])
+      );
+
+      const out: unknown[] = [];
+      for await (const row of rows) {
+        out.push(Row.toObject(row));
+      }
+
+      expect(rows.columnTypes).toEqual(cols);
+      expect(out).toEqual([
+        { id: 1, code: 'a' },
+        { id: 2, code: 'b' },
+      ]);
+    });
+
+    it('consumes array rows with provided columns', async () => {
+      const rows = RowStream.fromReadableStream(
+        fromArray([
+          [1, 'a'],
+          [2, 'b'],
+        ]),
+        null,
+        { columns: cols }
+      );
+
+      const out: unknown[] = [];
+      for await (const row of rows) {
+        out.push(Row.toArray(row));
+      }
+
+      expect(out).toEqual([
+        [1, 'a'],
+        [2, 'b'],
+      ]);
+    });
+
+    it('stops pulling while paused', async () => {
+      let pulled = 0;
+      const source = new ReadableStream(
+        {
+          pull(controller) {
+            controller.enqueue([++pulled, 'x']);
+          },
+        },
+        { highWaterMark: 0 }
+      );
+      const rows = RowStream.fromReadableStream(source, null, {
+        columns: cols,
+        pauseCount: 3,
+        resumeCount: 1,
+      });
+
+      await wait(5);
+      expect(RowStream.size(rows)).toBe(3);
+      const pulledWhilePaused = pulled;
+
+      await wait(5);
+      expect(pulled).toBe(pulledWhilePaused);
+
+      await rows.next();
+      await rows.next();
+      await wait(5);
+      expect(RowStream.size(rows)).toBe(3);
+
+      await rows.close();
+    });
+
+    it('cancels source on close', async () => {
+      let reason: unknown = 'not canceled';
+      const source = new ReadableStream({
+        cancel(r) {
+          reason = r;
+        },
+      });
+      const rows = RowStream.fromReadableStream(source, null, {
+        columns: cols,
+      });
+
+      await rows.close();
+
+      expect(reason).toBeUndefined();
+      expect(rows.err).toBe(null);
+    });
+
+    it('cancels source on context cancel', async () => {
+      const [ctx, cancel] = Context.cancel();
+      let sourceCanceled = false;
+      const source = new ReadableStream({
+        cancel() {
+          sourceCanceled = true;
+        },
+      });
+      RowStream.fromReadableStream(source, ctx.canceler, { columns: cols });
+
+      cancel();
+      await wait(1);
+
+      expect(sourceCanceled).toBe(true);
+    });
+
+    it('rejects with source error', async () => {
+      const source = new ReadableStream({
+        pull(controller) {
+          controller.error(new Error('source failed'));
+        },
+      });
+      const rows = RowStream.fromReadableStream(source, null, {
+        columns: cols,
+      });
+
+      await expect(rows.next()).rejects.toThrow('source failed');
+    });
+  });
+
+  describe('nextResultSet', () => {
+    const cols2 = [{ name: 'total', typeName: 'number', nullable: false }];
+
+    it('ends current result set without closing', async () => {
+      const [rows, ctrl] = newRows();
+      setCols(ctrl);
+      putData(ctrl, 1);
+      ctrl.nextResultSet(cols2);
+      ctrl.pushArray([100]);
+      ctrl.end();
+
+      expect(await rows.next()).toBe(true);
+      expect(await rows.next()).toBe(false);
+      expect(RowStream.isClosed(rows)).toBe(false);
+
+      expect(await (<RowStream>rows).nextResultSet()).toBe(true);
+      expect(rows.columnTypes).toEqual(cols2);
+      expect(await rows.next()).toBe(true);
+      expect(rows.row).toEqual([100]);
+      expect(rows.row.total).toBe(100);
+      expect(await rows.next()).toBe(false);
+      expect(RowStream.isClosed(rows)).toBe(true);
+    });
+
+    it('resolves pending next to false when next set starts', async () => {
+      const [rows, ctrl] = newRows();
+      setCols(ctrl);
+
+      const pNext = rows.next();
+      ctrl.nextResultSet(cols2);
+
+      expect(await pNext).toBe(false);
+      expect(RowStream.isClosed(rows)).toBe(false);
+      ctrl.end();
+    });
+
+    it('waits for controller to start next set', async () => {
+      const [rows, ctrl] = newRows();
+      setCols(ctrl);
+
+      const pSet = inspectPromise((<RowStream>rows).nextResultSet());
+      await wait(1);
+      expect(pSet.done).toBe(false);
+
+      // Row of the old set, which the client has already left
+      putData(ctrl, 1);
+
+      ctrl.nextResultSet(cols2);
+      ctrl.pushArray([5]);
+
+      expect(await pSet).toBe(true);
+      expect(rows.columns).toEqual(['total']);
+      expect(await rows.next()).toBe(true);
+      expect(rows.row).toEqual([5]);
+      ctrl.end();
+      expect(await rows.next()).toBe(false);
+    });
+
+    it('counts bytes of pending sets toward pauseBytes', async () => {
+      // Each row from putData is estimated at 42 bytes
+      const [rows, ctrl] = newRows({ pauseBytes: 100, resumeBytes: 50 });
+      const msgs: string[] = [];
+      ctrl.on('pause', () => msgs.push('pause'));
+      ctrl.on('resume', () => msgs.push('resume'));
+
+      setCols(ctrl);
+      ctrl.nextResultSet(rows.columnTypes);
+      putData(ctrl, 3);
+      expect(msgs).toEqual(['pause']);
+      expect(RowStream.stats(rows).bytes).toBe(126);
+
+      expect(await (<RowStream>rows).nextResultSet()).toBe(true);
+      expect(await rows.next()).toBe(true);
+      expect(await rows.next()).toBe(true);
+      expect(msgs).toEqual(['pause', 'resume']);
+      ctrl.end();
+    });
+
+    it('resolves false and closes after last set', async () => {
+      const [rows, ctrl] = newRows();
+      let completeCnt = 0;
+      rows.on('complete', () => completeCnt++);
+      setCols(ctrl);
+      ctrl.nextResultSet(cols2);
+      expect(completeCnt).toBe(0);
+
+      expect(await (<RowStream>rows).nextResultSet()).toBe(true);
+      const pSet = (<RowStream>rows).nextResultSet();
+      ctrl.end();
+
+      expect(await pSet).toBe(false);
+      expect(completeCnt).toBe(1);
+      expect(RowStream.isClosed(rows)).toBe(true);
+    });
+
+    it('discards unread rows of current set', async () => {
+      const [rows, ctrl] = newRows({ pauseCount: 3, resumeCount: 1 });
+      const msgs: string[] = [];
+      ctrl.on('pause', () => msgs.push('pause'));
+      ctrl.on('resume', () => msgs.push('resume'));
+
+      setCols(ctrl);
+      putData(ctrl, 3);
+      expect(msgs).toEqual(['pause']);
+
+      ctrl.nextResultSet(cols2);
+      ctrl.end();
+
+      expect(await (<RowStream>rows).nextResultSet()).toBe(true);
+      expect(msgs).toEqual(['pause', 'resume']);
+      expect(await rows.next()).toBe(false);
+    });
+
+    it('supports several sets with for await', async () => {
+      const [rows, ctrl] = newRows();
+      setCols(ctrl);
+      putData(ctrl, 2);
+      ctrl.nextResultSet(cols2);
+      ctrl.pushArray([10]);
+      ctrl.nextResultSet(cols2);
+      ctrl.pushArray([20]);
+      ctrl.end();
+
+      const sets: unknown[][] = [];
+      do {
+        const set: unknown[] = [];
+        for await (const row of rows) {
+          set.push(row[0]);
+        }
+        sets.push(set);
+      } while (await (<RowStream>rows).nextResultSet());
+
+      expect(sets).toEqual([[1, 2], [10], [20]]);
+      expect(RowStream.isClosed(rows)).toBe(true);
+    });
+
+    it('rejects if context is canceled while waiting', async () => {
+      const [ctx, cancel] = Context.cancel();
+      const [rows, ctrl] = newRows(ctx.canceler);
+      setCols(ctrl);
+
+      const test = expect((<RowStream>rows).nextResultSet()).rejects.toThrow(
+        'canceled'
+      );
+      cancel();
+
+      await test;
+    });
+
+    it('resolves false if rows closed while waiting', async () => {
+      const [rows, ctrl] = newRows();
+      setCols(ctrl);
+
+      const pSet = (<RowStream>rows).nextResultSet();
+      const pClose = rows.close();
+      ctrl.end();
+
+      await pClose;
+      expect(await pSet).toBe(false);
+    });
   });
 
   describe('next', () => {
@@ -708,6 +1608,255 @@ describe('RowController', () => {
 
       expect(rows.columns).toEqual(['id', 'code', 'label']);
     });
+
+    it('passes extended metadata through', () => {
+      const [rows, ctrl] = newRows();
+      const colInfo: DriverColumnInfo[] = [
+        {
+          name: 'id',
+          typeName: 'INTEGER',
+          nullable: false,
+          sourceTable: 'product',
+          sourceColumn: 'product_id',
+          primaryKey: true,
+          nativeTypeId: 23,
+        },
+        {
+          name: 'price',
+          typeName: 'NUMERIC',
+          nullable: true,
+          precision: 10,
+          scale: 2,
+        },
+        {
+          name: 'code',
+          typeName: 'VARCHAR',
+          nullable: false,
+          length: 20,
+        },
+      ];
+
+      ctrl.setColumns(colInfo);
+
+      expect(rows.columnTypes).toEqual(colInfo);
+      expect((<RowStream>rows).columnTypes[0].primaryKey).toBe(true);
+    });
+  });
+
+  describe('nextResultSet', () => {
+    it('requires initial column info', () => {
+      const [, ctrl] = newRows();
+      expect(() => ctrl.nextResultSet([])).toThrow(
+        'Cannot nextResultSet: Column info not yet set'
+      );
+    });
+
+    it('passes extended metadata through', async () => {
+      const [rows, ctrl] = newRows();
+      const colInfo: DriverColumnInfo[] = [
+        { name: 'x', typeName: 'CHAR', nullable: false, length: 3 },
+      ];
+      setCols(ctrl);
+      ctrl.nextResultSet(colInfo);
+      ctrl.end();
+
+      await (<RowStream>rows).nextResultSet();
+      expect(rows.columnTypes).toEqual(colInfo);
+    });
+
+    it('uses new column names for pushed rows', async () => {
+      const [rows, ctrl] = newRows();
+      setCols(ctrl);
+      ctrl.nextResultSet([
+        { name: 'x', typeName: 'number', nullable: false },
+        { name: 'y', typeName: 'number', nullable: false },
+      ]);
+      ctrl.pushObject({ y: 2, x: 1 });
+      ctrl.end();
+
+      // Client is still on the first result set
+      expect(rows.columns).toEqual(['id', 'code', 'label']);
+
+      await (<RowStream>rows).nextResultSet();
+      await rows.next();
+      expect(Row.toObject(rows.row)).toEqual({ x: 1, y: 2 });
+    });
+  });
+
+  describe('maxRows', () => {
+    it('validates options', () => {
+      for (const n of [-1, 1.5]) {
+        expect(() => new RowStream({ maxRows: n })).toThrow(
+          'maxRows must be a non-negative integer'
+        );
+      }
+      expect(
+        () =>
+          new RowStream({
+            maxRows: 1,
+            maxRowsBehavior: <'error'>'ignore',
+          })
+      ).toThrow('Invalid maxRowsBehavior: ignore');
+    });
+
+    it('allows exactly maxRows', async () => {
+      const [rows, ctrl] = newRows({ maxRows: 3 });
+      setCols(ctrl);
+      putData(ctrl, 3);
+      ctrl.end();
+
+      const ids: unknown[] = [];
+      for await (const row of rows) {
+        ids.push(row[0]);
+      }
+      expect(ids).toEqual(range(3));
+      expect(RowStream.isTruncated(rows)).toBe(false);
+    });
+
+    it('errors by default when exceeded', async () => {
+      const [rows, ctrl] = newRows({ maxRows: 2 });
+      let canceled = false;
+      ctrl.on('cancel', () => (canceled = true));
+      setCols(ctrl);
+      putData(ctrl, 3);
+
+      expect(canceled).toBe(true);
+      expect(rows.err).toEqual(new Error('Query returned more than 2 rows'));
+      await expect(rows.next()).resolves.toBe(false);
+    });
+
+    it('truncates when configured', async () => {
+      const [rows, ctrl] = newRows({
+        maxRows: 2,
+        maxRowsBehavior: 'truncate',
+      });
+      let cancelCnt = 0;
+      ctrl.on('cancel', () => cancelCnt++);
+      setCols(ctrl);
+      putData(ctrl, 4);
+
+      expect(cancelCnt).toBe(1);
+      expect(RowStream.isTruncated(rows)).toBe(true);
+      expect(RowStream.stats(rows).pushed).toBe(2);
+
+      ctrl.end();
+
+      const ids: unknown[] = [];
+      for await (const row of rows) {
+        ids.push(row[0]);
+      }
+      expect(ids).toEqual(range(2));
+      expect(rows.err).toBe(null);
+    });
+
+    it('counts rows across result sets', () => {
+      const [rows, ctrl] = newRows({
+        maxRows: 3,
+        maxRowsBehavior: 'truncate',
+      });
+      setCols(ctrl);
+      putData(ctrl, 2);
+      ctrl.nextResultSet([{ name: 'x', typeName: 'number', nullable: false }]);
+      ctrl.pushArray([1]);
+      expect(RowStream.isTruncated(rows)).toBe(false);
+
+      ctrl.pushArray([2]);
+      expect(RowStream.isTruncated(rows)).toBe(true);
+      ctrl.end();
+    });
+
+    it('isTruncated throws for non-RowStream', () => {
+      expect(() => RowStream.isTruncated(<Rows>null!)).toThrow(
+        'not a RowStream'
+      );
+    });
+  });
+
+  describe('converters', () => {
+    const cols = [
+      { name: 'id', typeName: 'int', nullable: false },
+      { name: 'amount', typeName: 'NUMERIC', nullable: true },
+      { name: 'data', typeName: 'json', nullable: true },
+    ];
+    const converters = {
+      numeric: StandardConverters.bigint,
+      json: StandardConverters.json,
+    };
+
+    it('converts pushed arrays by type name', async () => {
+      const [rows, ctrl] = newRows({ converters });
+      ctrl.setColumns(cols);
+      const raw = [1, '12345678901234567890', '{"a":1}'];
+      ctrl.pushArray(raw);
+
+      await rows.next();
+      expect(Row.toArray(rows.row)).toEqual([
+        1,
+        BigInt('12345678901234567890'),
+        { a: 1 },
+      ]);
+
+      // Source array is not modified
+      expect(raw[1]).toBe('12345678901234567890');
+      ctrl.end();
+    });
+
+    it('converts pushed objects by type name', async () => {
+      const [rows, ctrl] = newRows({ converters });
+      ctrl.setColumns(cols);
+      ctrl.pushObject({ data: '[2]', amount: '5', id: 3 });
+
+      await rows.next();
+      expect(Row.toObject(rows.row)).toEqual({
+        id: 3,
+        amount: BigInt(5),
+        data: [2],
+      });
+      ctrl.end();
+    });
+
+    it('does not convert null values', async () => {
+      const fn = jest.fn();
+      const [rows, ctrl] = newRows({ converters: { numeric: fn } });
+      ctrl.setColumns(cols);
+      ctrl.pushArray([1, null, undefined]);
+
+      await rows.next();
+      expect(fn).not.toHaveBeenCalled();
+      ctrl.end();
+    });
+
+    it('passes column info to converter', async () => {
+      const fn = jest.fn(() => 'x');
+      const [, ctrl] = newRows({ converters: { int: fn } });
+      ctrl.setColumns(cols);
+      ctrl.pushArray([1, null, null]);
+
+      expect(fn).toHaveBeenCalledWith(1, cols[0]);
+      ctrl.end();
+    });
+
+    it('uses columns of each result set', async () => {
+      const [rows, ctrl] = newRows({ converters });
+      ctrl.setColumns(cols);
+      ctrl.nextResultSet([{ name: 'x', typeName: 'text', nullable: false }]);
+      ctrl.pushArray(['{"a":1}']);
+      ctrl.end();
+
+      await (<RowStream>rows).nextResultSet();
+      await rows.next();
+      expect(rows.row).toEqual(['{"a":1}']);
+    });
+
+    it('throws descriptive error if conversion fails', () => {
+      const [, ctrl] = newRows({ converters });
+      ctrl.setColumns(cols);
+
+      expect(() => ctrl.pushArray([1, '1.5', null])).toThrow(
+        'Cannot convert column amount (NUMERIC): '
+      );
+      ctrl.end();
+    });
   });
 
   describe('pushRow', () => {
@@ -1197,3 +2346,37 @@ describe('RowController', () => {
     });
   });
 });
+
+describe('estimateValueSize', () => {
+  it('returns 0 for null and undefined', () => {
+    expect(estimateValueSize(null)).toBe(0);
+    expect(estimateValueSize(undefined)).toBe(0);
+  });
+
+  it('counts two bytes per string character', () => {
+    expect(estimateValueSize('hello')).toBe(10);
+  });
+
+  it('counts eight bytes for numbers, bigints, and dates', () => {
+    expect(estimateValueSize(3.14)).toBe(8);
+    expect(estimateValueSize(BigInt(10))).toBe(8);
+    expect(estimateValueSize(new Date())).toBe(8);
+  });
+
+  it('counts byte length of binary values', () => {
+    expect(estimateValueSize(new Uint8Array(300))).toBe(300);
+    expect(estimateValueSize(Buffer.alloc(25))).toBe(25);
+    expect(estimateValueSize(new ArrayBuffer(12))).toBe(12);
+  });
+
+  it('sums arrays', () => {
+    expect(estimateValueSize(['ab', 1, null])).toBe(12);
+  });
+});
+
+describe('estimateRowSize', () => {
+  it('sums values in row', () => {
+    const row = Row.fromArray([1, 'abc', true], ['a', 'b', 'c']);
+    expect(estimateRowSize(row)).toBe(18);
+  });
+});
@@ -0,0 +1,271 @@
+// Copyright 2022 Joshua Honig. All rights reserved.
+// Use of this source code is governed by a MIT
+// license that can be found in the LICENSE file.
+
+import { Context } from '@sabl/context';
+import { DbTxn } from '@sabl/db-api';
+import { StorageKind, StorageMode } from '@sabl/storage-pool';
+import { IsolationLevel, Transactable } from '@sabl/txn';
+
+import { DriverTxn, SavepointTxn, SqlTxn } from '$';
+import { MockDriverConn } from './fixtures/mock-driver-conn';
+
+async function startTxn(con: MockDriverConn): Promise<Transactable<DbTxn>> {
+  const txn = await SqlTxn.start(Context.background, con, undefined, {
+    useSavepoints: true,
+  });
+  return <Transactable<DbTxn>>(<unknown>txn);
+}
+
+function spName(txn: DbTxn): string {
+  return SavepointTxn.savepointName(<SavepointTxn>txn);
+}
+
+describe('SavepointTxn', () => {
+  describe('StorageApi', () => {
+    it('returns kind = rdb', () => {
+      const txn = new SavepointTxn(Context.background, new MockDriverConn());
+      expect(txn.kind).toEqual(StorageKind.rdb);
+    });
+
+    it('returns mode = txn', () => {
+      const txn = new SavepointTxn(Context.background, new MockDriverConn());
+      expect(txn.mode).toEqual(StorageMode.txn);
+    });
+  });
+
+  describe('start', () => {
+    it('generates unique savepoint names', async () => {
+      const ctx = Context.background;
+      const con = new MockDriverConn();
+      const txn1 = await SavepointTxn.start(ctx, con);
+      const txn2 = await SavepointTxn.start(ctx, con);
+
+      expect(spName(txn1)).not.toEqual(spName(txn2));
+      expect(con.log).toEqual([
+        `start SAVEPOINT ${spName(txn1)}`,
+        `end SAVEPOINT ${spName(txn1)}`,
+        `start SAVEPOINT ${spName(txn2)}`,
+        `end SAVEPOINT ${spName(txn2)}`,
+      ]);
+    });
+
+    it('rejects isolation level', () => {
+      expect(
+        () =>
+          new SavepointTxn(Context.background, new MockDriverConn(), {
+            isolationLevel: IsolationLevel.serializable,
+          })
+      ).toThrow('Nested transactions cannot set isolation level');
+    });
+
+    it('rejects read only', () => {
+      expect(
+        () =>
+          new SavepointTxn(Context.background, new MockDriverConn(), {
+            readOnly: true,
+          })
+      ).toThrow('Nested transactions cannot be read only');
+    });
+
+    it('closes if start fails', async () => {
+      const ctx = Context.background;
+      const con = new MockDriverConn();
+      const txn = new SavepointTxn(ctx, con);
+      con.exec = () => Promise.reject(new Error('no savepoint'));
+
+      await expect(txn.start()).rejects.toThrow('no savepoint');
+      await expect(txn.commit()).rejects.toThrow(
+        'Transaction is already closed'
+      );
+    });
+  });
+
+  describe('commit', () => {
+    it('releases savepoint and emits complete', async () => {
+      const ctx = Context.background;
+      const con = new MockDriverConn();
+      const txn = await startTxn(con);
+      const child = await txn.beginTxn(ctx);
+      const name = spName(child);
+
+      let completeSignaled = false;
+      (<DriverTxn>child).on('complete', () => (completeSignaled = true));
+
+      await child.exec(ctx, 'a');
+      await child.commit();
+
+      expect(completeSignaled).toBe(true);
+      expect(con.log).toEqual([
+        'start START TRANSACTION',
+        'end START TRANSACTION',
+        `start SAVEPOINT ${name}`,
+        `end SAVEPOINT ${name}`,
+        'start a',
+        'end a',
+        `start RELEASE SAVEPOINT ${name}`,
+        `end RELEASE SAVEPOINT ${name}`,
+      ]);
+    });
+
+    it('rejects operations after commit', async () => {
+      const ctx = Context.background;
+      const con = new MockDriverConn();
+      const txn = await startTxn(con);
+      const child = await txn.beginTxn(ctx);
+      await child.commit();
+
+      await expect(child.exec(ctx, 'a')).rejects.toThrow(
+        'Transaction is already closed'
+      );
+      await expect(child.queryRow(ctx, 'a')).rejects.toThrow(
+        'Transaction is already closed'
+      );
+      await expect(child.query(ctx, 'a')).rejects.toThrow(
+        'Transaction is already closed'
+      );
+    });
+  });
+
+  describe('rollback', () => {
+    it('rolls back to savepoint and emits complete', async () => {
+      const ctx = Context.background;
+      const con = new MockDriverConn();
+      const txn = await startTxn(con);
+      const child = await txn.beginTxn(ctx);
+      const name = spName(child);
+
+      let completeSignaled = false;
+      (<DriverTxn>child).on('complete', () => (completeSignaled = true));
+
+      await child.rollback();
+
+      expect(completeSignaled).toBe(true);
+      expect(con.log.slice(4)).toEqual([
+        `start ROLLBACK TO SAVEPOINT ${name}`,
+        `end ROLLBACK TO SAVEPOINT ${name}`,
+        `start RELEASE SAVEPOINT ${name}`,
+        `end RELEASE SAVEPOINT ${name}`,
+      ]);
+    });
+  });
+
+  describe('nesting', () => {
+    it('prevents parent commit while child is open', async () => {
+      const ctx = Context.background;
+      const con = new MockDriverConn();
+      const txn = await startTxn(con);
+      const child = await txn.beginTxn(ctx);
+
+      await expect((<DbTxn>(<unknown>txn)).commit()).rejects.toThrow(
+        'Cannot commit while a nested transaction is open'
+      );
+
+      await child.commit();
+      await (<DbTxn>(<unknown>txn)).commit();
+
+      expect(con.log.slice(-2)).toEqual(['start COMMIT', 'end COMMIT']);
+    });
+
+    it('prevents more than one open child', async () => {
+      const ctx = Context.background;
+      const con = new MockDriverConn();
+      const txn = await startTxn(con);
+      await txn.beginTxn(ctx);
+
+      await expect(txn.beginTxn(ctx)).rejects.toThrow(
+        'A nested transaction is already open'
+      );
+    });
+
+    it('reserves child while savepoint is starting', async () => {
+      const ctx = Context.background;
+      const con = new MockDriverConn();
+      const txn = await startTxn(con);
+      const pChild = txn.beginTxn(ctx);
+
+      await expect(txn.beginTxn(ctx)).rejects.toThrow(
+        'A nested transaction is already open'
+      );
+      await expect((<DbTxn>(<unknown>txn)).commit()).rejects.toThrow(
+        'Cannot commit while a nested transaction is open'
+      );
+
+      const child = <SavepointTxn>await pChild;
+      const pGrandChild = child.beginTxn(ctx);
+      await expect(child.beginTxn(ctx)).rejects.toThrow(
+        'A nested transaction is already open'
+      );
+      await (await pGrandChild).commit();
+      await child.commit();
+      await (<DbTxn>(<unknown>txn)).commit();
+    });
+
+    it('releases child slot if savepoint fails', async () => {
+      const ctx = Context.background;
+      const con = new MockDriverConn();
+      const txn = await startTxn(con);
+      const exec = con.exec.bind(con);
+      con.exec = (ctx, sql, ...params) =>
+        sql.startsWith('SAVEPOINT')
+          ? exec(ctx, 'FAIL')
+          : exec(ctx, sql, ...params);
+
+      await expect(txn.beginTxn(ctx)).rejects.toThrow('exec failed');
+      await (<DbTxn>(<unknown>txn)).commit();
+    });
+
+    it('allows a new child after previous child completes', async () => {
+      const ctx = Context.background;
+      const con = new MockDriverConn();
+      const txn = await startTxn(con);
+      const child1 = await txn.beginTxn(ctx);
+      await child1.rollback();
+      const child2 = await txn.beginTxn(ctx);
+
+      expect(spName(child2)).not.toEqual(spName(child1));
+    });
+
+    it('supports multiple levels', async () => {
+      const ctx = Context.background;
+      const con = new MockDriverConn();
+      const txn = await startTxn(con);
+      const child = <SavepointTxn>await txn.beginTxn(ctx);
+      const grandChild = await child.beginTxn(ctx);
+
+      await expect(child.commit()).rejects.toThrow(
+        'Cannot commit while a nested transaction is open'
+      );
+
+      await grandChild.commit();
+      await child.commit();
+
+      expect(con.log.slice(-4)).toEqual([
+        `start RELEASE SAVEPOINT ${spName(grandChild)}`,
+        `end RELEASE SAVEPOINT ${spName(grandChild)}`,
+        `start RELEASE SAVEPOINT ${spName(child)}`,
+        `end RELEASE SAVEPOINT ${spName(child)}`,
+      ]);
+    });
+
+    it('abandons open children on parent rollback', async () => {
+      const ctx = Context.background;
+      const con = new MockDriverConn();
+      const txn = await startTxn(con);
+      const child = <SavepointTxn>await txn.beginTxn(ctx);
+      const grandChild = <SavepointTxn>await child.beginTxn(ctx);
+
+      const completed: string[] = [];
+      child.on('complete', () => completed.push('child'));
+      grandChild.on('complete', () => completed.push('grandChild'));
+
+      await (<DbTxn>(<unknown>txn)).rollback();
+
+      expect(completed).toEqual(['grandChild', 'child']);
+      expect(con.log.slice(-2)).toEqual(['start ROLLBACK', 'end ROLLBACK']);
+      await expect(child.commit()).rejects.toThrow(
+        'Transaction is already closed'
+      );
+    });
+  });
+});
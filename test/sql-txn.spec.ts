@@ -3,12 +3,21 @@
 // license that can be found in the LICENSE file.
 
 import { wait } from '@sabl/async';
-import { Context, IContext } from '@sabl/context';
+import { Canceler, Context, IContext } from '@sabl/context';
 import { DbConn, DbTxn, PlainObject, Result, Row, Rows } from '@sabl/db-api';
 import { StorageKind, StorageMode } from '@sabl/storage-pool';
 import { IsolationLevel, Transactable, TxnOptions } from '@sabl/txn';
 
-import { RowStream, SqlTxn } from '$';
+import {
+  createParamNormalizer,
+  getTxnDeadline,
+  isolationLevelKeyword,
+  RowStream,
+  SqlTxn,
+  TxnOutcome,
+  TxnTimeoutError,
+  withTxnDeadline,
+} from '$';
 
 interface Cmd {
   method: string;
@@ -287,6 +296,80 @@ describe('start', () => {
     expect(con.commands).toEqual([]);
   });
 
+  it('sets isolation level in start statement', async () => {
+    const con = new MockConn(1);
+
+    const txn = new SqlTxn(
+      Context.background,
+      con,
+      { isolationLevel: IsolationLevel.serializable, readOnly: true },
+      {
+        isolationLevelSyntax: 'start',
+        supportsReadOnly: true,
+        supportsIsolationLevel() {
+          return true;
+        },
+      }
+    );
+
+    await txn.start();
+
+    expect(con.commands).toEqual([
+      {
+        method: 'exec',
+        sql: 'START TRANSACTION ISOLATION LEVEL SERIALIZABLE READ ONLY',
+        params: [],
+      },
+    ]);
+  });
+
+  it('skips isolation level statement', async () => {
+    const con = new MockConn(1);
+
+    const txn = new SqlTxn(
+      Context.background,
+      con,
+      { isolationLevel: IsolationLevel.serializable },
+      {
+        isolationLevelSyntax: 'none',
+        supportsIsolationLevel() {
+          return true;
+        },
+      }
+    );
+
+    await txn.start();
+
+    expect(con.commands).toEqual([
+      {
+        method: 'exec',
+        sql: 'START TRANSACTION',
+        params: [],
+      },
+    ]);
+  });
+
+  it('validates read only before setting isolation level', async () => {
+    const con = new MockConn(1);
+
+    const txn = new SqlTxn(
+      Context.background,
+      con,
+      { isolationLevel: IsolationLevel.serializable, readOnly: true },
+      {
+        supportsIsolationLevel() {
+          return true;
+        },
+      }
+    );
+
+    await expect(txn.start()).rejects.toThrow(
+      'Read only transactions not supported'
+    );
+
+    expect(con.commands).toEqual([]);
+  });
+
   it('static - awaits start()', async () => {
     const con = new MockConn(1);
 
@@ -374,6 +457,44 @@ describe('exec', () => {
       },
     ]);
   });
+
+  it('normalizes params with paramNormalizer from config', async () => {
+    const ctx = Context.background;
+    const sql = 'INSERT 1 INTO 2';
+    const con = new MockConn(1);
+    const txn = await SqlTxn.start(ctx, con, undefined, {
+      paramNormalizer: createParamNormalizer({ boolean: 'number' }),
+    });
+
+    await txn.exec(ctx, sql, true, undefined, { a: 1 });
+
+    expect(con.commands[1]).toEqual({
+      method: 'exec',
+      sql: sql,
+      params: [1, null, '{"a":1}'],
+    });
+  });
+
+  it('normalizes params in nested savepoint transactions', async () => {
+    const ctx = Context.background;
+    const con = new MockConn(1);
+    const txn = await SqlTxn.start(ctx, con, undefined, {
+      useSavepoints: true,
+      paramNormalizer: createParamNormalizer({ boolean: 'number' }),
+    });
+
+    const child = await (<Transactable<DbTxn>>(<unknown>txn)).beginTxn(ctx);
+    const grandChild = await (<Transactable<DbTxn>>(<unknown>child)).beginTxn(
+      ctx
+    );
+    await child.exec(ctx, 'a', true);
+    await grandChild.query(ctx, 'b', false, undefined);
+
+    expect(con.commands.filter((c) => c.params?.length)).toEqual([
+      { method: 'exec', sql: 'a', params: [1] },
+      { method: 'query', sql: 'b', params: [0, null] },
+    ]);
+  });
 });
 
 describe('queryRow', () => {
@@ -557,6 +678,22 @@ describe('commit', () => {
       },
     ]);
   });
+
+  it('uses specified verb', async () => {
+    const ctx = Context.background;
+    const con = new MockConn(1);
+    const txn = await SqlTxn.start(ctx, con, undefined, {
+      commitVerb: 'COMMIT TRANSACTION',
+    });
+
+    await txn.commit();
+
+    expect(con.commands[1]).toEqual({
+      method: 'exec',
+      sql: 'COMMIT TRANSACTION',
+      params: [],
+    });
+  });
 });
 
 describe('rollback', () => {
@@ -616,6 +753,22 @@ describe('rollback', () => {
       },
     ]);
   });
+
+  it('uses specified verb', async () => {
+    const ctx = Context.background;
+    const con = new MockConn(1);
+    const txn = await SqlTxn.start(ctx, con, undefined, {
+      rollbackVerb: 'ROLLBACK TRANSACTION',
+    });
+
+    await txn.rollback();
+
+    expect(con.commands[1]).toEqual({
+      method: 'exec',
+      sql: 'ROLLBACK TRANSACTION',
+      params: [],
+    });
+  });
 });
 
 describe('supportsIsolationLevel', () => {
@@ -666,3 +819,602 @@ describe('nestedTxn', () => {
     expect(fakeTxn.args.opts).toBe(childOptions);
   });
 });
+
+describe('statement builder', () => {
+  it('uses beginStatements from config', async () => {
+    const con = new MockConn(1);
+    const opts: TxnOptions = {
+      isolationLevel: IsolationLevel.serializable,
+      readOnly: true,
+    };
+    let received: TxnOptions | undefined;
+
+    await SqlTxn.start(Context.background, con, opts, {
+      beginStatements(opts) {
+        received = opts;
+        return [
+          `BEGIN ISOLATION LEVEL ${isolationLevelKeyword(
+            opts!.isolationLevel!
+          )} READ ONLY DEFERRABLE`,
+        ];
+      },
+    });
+
+    expect(received).toBe(opts);
+    expect(con.commands).toEqual([
+      {
+        method: 'exec',
+        sql: 'BEGIN ISOLATION LEVEL SERIALIZABLE READ ONLY DEFERRABLE',
+        params: [],
+      },
+    ]);
+  });
+
+  it('executes multiple begin statements in order', async () => {
+    const con = new MockConn(1);
+
+    await SqlTxn.start(Context.background, con, undefined, {
+      beginStatements() {
+        return ['SET LOCK_TIMEOUT 100', 'BEGIN TRANSACTION'];
+      },
+    });
+
+    expect(con.commands.map((c) => c.sql)).toEqual([
+      'SET LOCK_TIMEOUT 100',
+      'BEGIN TRANSACTION',
+    ]);
+  });
+
+  it('rejects if beginStatements throws', async () => {
+    const con = new MockConn(1);
+
+    const txn = new SqlTxn(Context.background, con, undefined, {
+      beginStatements() {
+        throw new Error('Not supported');
+      },
+    });
+
+    await expect(txn.start()).rejects.toThrow('Not supported');
+    await expect(txn.commit()).rejects.toThrow('Transaction is already closed');
+    expect(con.commands).toEqual([]);
+  });
+
+  it('uses commitStatements from config', async () => {
+    const con = new MockConn(1);
+
+    const txn = await SqlTxn.start(Context.background, con, undefined, {
+      commitStatements() {
+        return ['COMMIT AND CHAIN'];
+      },
+    });
+    await txn.commit();
+
+    expect(con.commands.map((c) => c.sql)).toEqual([
+      'START TRANSACTION',
+      'COMMIT AND CHAIN',
+    ]);
+  });
+
+  it('uses rollbackStatements from config', async () => {
+    const con = new MockConn(1);
+
+    const txn = await SqlTxn.start(Context.background, con, undefined, {
+      rollbackStatements() {
+        return ['ROLLBACK AND NO CHAIN'];
+      },
+    });
+    await txn.rollback();
+
+    expect(con.commands.map((c) => c.sql)).toEqual([
+      'START TRANSACTION',
+      'ROLLBACK AND NO CHAIN',
+    ]);
+  });
+});
+
+describe('cancel', () => {
+  it('rolls back when context is canceled', async () => {
+    const [ctx, cancel] = Context.cancel();
+    const con = new MockConn(1);
+    const txn = await SqlTxn.start(ctx, con);
+
+    const pComplete = new Promise<void>((resolve) =>
+      txn.on('complete', () => resolve())
+    );
+    cancel();
+    await pComplete;
+
+    expect(con.commands.map((c) => c.sql)).toEqual([
+      'START TRANSACTION',
+      'ROLLBACK',
+    ]);
+
+    await expect(txn.exec(ctx, 'SELECT 1')).rejects.toThrow(
+      'Transaction is already closed'
+    );
+  });
+
+  it('abandons open nested transaction', async () => {
+    const [ctx, cancel] = Context.cancel();
+    const con = new MockConn(1);
+    const txn = await SqlTxn.start(ctx, con, undefined, {
+      useSavepoints: true,
+    });
+    const child = await (<Transactable<DbTxn>>(<unknown>txn)).beginTxn(
+      Context.background
+    );
+
+    const pComplete = new Promise<void>((resolve) =>
+      txn.on('complete', () => resolve())
+    );
+    cancel();
+    await pComplete;
+
+    await expect(child.commit()).rejects.toThrow(
+      'Transaction is already closed'
+    );
+  });
+
+  it('rolls back when canceled during start', async () => {
+    const [ctx, cancel] = Context.cancel();
+    const con = new MockConn(5);
+    const txn = new SqlTxn(ctx, con);
+
+    const pComplete = new Promise<void>((resolve) =>
+      txn.on('complete', () => resolve())
+    );
+    const pStart = txn.start();
+    cancel();
+    await pStart;
+    await pComplete;
+
+    expect(con.commands.map((c) => c.sql)).toEqual([
+      'START TRANSACTION',
+      'ROLLBACK',
+    ]);
+    expect(Canceler.size(ctx.canceler)).toBe(0);
+    expect(SqlTxn.stats(txn).state).toBe('rolledBack');
+
+    await expect(txn.exec(ctx, 'SELECT 1')).rejects.toThrow(
+      'Transaction is already closed'
+    );
+  });
+
+  it('registers cancel callback only after start', async () => {
+    const [ctx] = Context.cancel();
+    const con = new MockConn(1);
+    const txn = new SqlTxn(ctx, con);
+
+    expect(Canceler.size(ctx.canceler)).toBe(0);
+
+    await txn.start();
+
+    expect(Canceler.size(ctx.canceler)).toBe(1);
+  });
+
+  it('clears cancel callback on commit', async () => {
+    const [ctx, cancel] = Context.cancel();
+    const con = new MockConn(1);
+    const txn = await SqlTxn.start(ctx, con);
+
+    await txn.commit();
+
+    expect(Canceler.size(ctx.canceler)).toBe(0);
+
+    cancel();
+    await wait(5);
+
+    expect(con.commands.map((c) => c.sql)).toEqual([
+      'START TRANSACTION',
+      'COMMIT',
+    ]);
+  });
+
+  it('clears cancel callback on rollback', async () => {
+    const [ctx] = Context.cancel();
+    const con = new MockConn(1);
+    const txn = await SqlTxn.start(ctx, con);
+
+    await txn.rollback();
+
+    expect(Canceler.size(ctx.canceler)).toBe(0);
+  });
+});
+
+describe('timeout', () => {
+  it('rolls back after configured timeout', async () => {
+    const ctx = Context.background;
+    const con = new MockConn();
+    const txn = await SqlTxn.start(ctx, con, undefined, { timeout: 10 });
+
+    const pComplete = new Promise<void>((resolve) =>
+      txn.on('complete', () => resolve())
+    );
+    await txn.exec(ctx, 'SELECT 1');
+    await pComplete;
+
+    expect(con.commands.map((c) => c.sql)).toEqual([
+      'START TRANSACTION',
+      'SELECT 1',
+      'ROLLBACK',
+    ]);
+  });
+
+  it('ignores deadlines beyond the timer range', async () => {
+    const con = new MockConn();
+    const ctx = withTxnDeadline(
+      Context.background,
+      new Date(Date.now() + 30 * 24 * 60 * 60 * 1000)
+    );
+    const txn1 = await SqlTxn.start(ctx, con);
+    const txn2 = await SqlTxn.start(Context.background, con, undefined, {
+      timeout: Infinity,
+    });
+
+    await wait(10);
+
+    expect(SqlTxn.stats(txn1).state).toBe('active');
+    expect(SqlTxn.stats(txn2).state).toBe('active');
+    await txn1.commit();
+    await txn2.commit();
+  });
+
+  it('rejects operations after timeout', async () => {
+    const ctx = Context.background;
+    const con = new MockConn();
+    const txn = await SqlTxn.start(ctx, con, undefined, { timeout: 5 });
+
+    await wait(10);
+
+    await expect(txn.exec(ctx, 'SELECT 1')).rejects.toThrow(TxnTimeoutError);
+    await expect(txn.queryRow(ctx, 'SELECT 1')).rejects.toThrow(
+      TxnTimeoutError
+    );
+    await expect(txn.query(ctx, 'SELECT 1')).rejects.toThrow(
+      'Transaction timed out'
+    );
+    await expect(txn.commit()).rejects.toThrow(TxnTimeoutError);
+  });
+
+  it('does not roll back if committed before timeout', async () => {
+    const ctx = Context.background;
+    const con = new MockConn();
+    const txn = await SqlTxn.start(ctx, con, undefined, { timeout: 5 });
+
+    await txn.commit();
+    await wait(10);
+
+    expect(con.commands.map((c) => c.sql)).toEqual([
+      'START TRANSACTION',
+      'COMMIT',
+    ]);
+  });
+
+  it('honors deadline on context', async () => {
+    const ctx = withTxnDeadline(Context.background, new Date(Date.now() + 10));
+    const con = new MockConn();
+    const txn = await SqlTxn.start(ctx, con, undefined, { timeout: 1000 });
+
+    await wait(20);
+
+    await expect(txn.exec(ctx, 'SELECT 1')).rejects.toThrow(TxnTimeoutError);
+    expect(con.commands.map((c) => c.sql)).toEqual([
+      'START TRANSACTION',
+      'ROLLBACK',
+    ]);
+  });
+
+  it('rejects start if deadline already passed', async () => {
+    const ctx = withTxnDeadline(Context.background, new Date(Date.now() - 1));
+    const con = new MockConn();
+
+    await expect(SqlTxn.start(ctx, con)).rejects.toThrow(TxnTimeoutError);
+    expect(con.commands).toEqual([]);
+  });
+
+  it('gets deadline from context', () => {
+    const deadline = new Date();
+    expect(getTxnDeadline(Context.background)).toBe(null);
+    expect(getTxnDeadline(withTxnDeadline(Context.background, deadline))).toBe(
+      deadline
+    );
+  });
+});
+
+describe('lifecycle hooks', () => {
+  function track(txn: SqlTxn): string[] {
+    const events: string[] = [];
+    for (const ev of ['beforeCommit', 'commit', 'rollback', 'complete']) {
+      txn.on(ev, () => events.push(ev));
+    }
+    txn.on('error', (err: Error) => events.push(`error: ${err.message}`));
+    return events;
+  }
+
+  it('emits commit events in order', async () => {
+    const ctx = Context.background;
+    const con = new MockConn();
+    const txn = new SqlTxn(ctx, con);
+    await txn.start();
+    const events = track(txn);
+
+    txn.onBeforeCommit(() => {
+      events.push('before handler');
+    });
+    txn.onAfterCommit(async () => {
+      events.push('after handler');
+    });
+
+    await txn.commit();
+
+    expect(events).toEqual([
+      'beforeCommit',
+      'before handler',
+      'commit',
+      'complete',
+      'after handler',
+    ]);
+  });
+
+  it('emits rollback events', async () => {
+    const ctx = Context.background;
+    const con = new MockConn();
+    const txn = new SqlTxn(ctx, con);
+    await txn.start();
+    const events = track(txn);
+
+    let afterCommitCalled = false;
+    txn.onAfterCommit(() => {
+      afterCommitCalled = true;
+    });
+
+    await txn.rollback();
+
+    expect(events).toEqual(['rollback', 'complete']);
+    expect(afterCommitCalled).toBe(false);
+  });
+
+  it('vetoes commit if before-commit handler throws', async () => {
+    const ctx = Context.background;
+    const con = new MockConn();
+    const txn = new SqlTxn(ctx, con);
+    await txn.start();
+    const events = track(txn);
+
+    let afterCommitCalled = false;
+    txn.onBeforeCommit(async () => {
+      throw new Error('veto');
+    });
+    txn.onAfterCommit(() => {
+      afterCommitCalled = true;
+    });
+
+    await expect(txn.commit()).rejects.toThrow('veto');
+
+    expect(events).toEqual(['beforeCommit', 'rollback', 'complete']);
+    expect(afterCommitCalled).toBe(false);
+    expect(con.commands.map((c) => c.sql)).toEqual([
+      'START TRANSACTION',
+      'ROLLBACK',
+    ]);
+  });
+
+  it('does not run after-commit handlers if COMMIT fails', async () => {
+    const ctx = Context.background;
+    const con = new MockConn();
+    const txn = new SqlTxn(ctx, con);
+    await txn.start();
+    const events = track(txn);
+
+    let afterCommitCalled = false;
+    txn.onAfterCommit(() => {
+      afterCommitCalled = true;
+    });
+    con.exec = () => Promise.reject(new Error('commit failed'));
+
+    await expect(txn.commit()).rejects.toThrow('commit failed');
+
+    expect(events).toEqual([
+      'beforeCommit',
+      'error: commit failed',
+      'complete',
+    ]);
+    expect(afterCommitCalled).toBe(false);
+  });
+
+  it('emits error if ROLLBACK fails', async () => {
+    const ctx = Context.background;
+    const con = new MockConn();
+    const txn = new SqlTxn(ctx, con);
+    await txn.start();
+    const events = track(txn);
+
+    con.exec = () => Promise.reject(new Error('rollback failed'));
+
+    await expect(txn.rollback()).rejects.toThrow('rollback failed');
+
+    expect(events).toEqual(['error: rollback failed', 'complete']);
+  });
+
+  it('emits after-commit handler errors without rejecting', async () => {
+    const ctx = Context.background;
+    const con = new MockConn();
+    const txn = new SqlTxn(ctx, con);
+    await txn.start();
+    const events = track(txn);
+
+    txn.onAfterCommit(() => {
+      throw new Error('outbox failed');
+    });
+    txn.onAfterCommit(() => {
+      events.push('after handler');
+    });
+
+    await txn.commit();
+
+    expect(events).toEqual([
+      'beforeCommit',
+      'commit',
+      'complete',
+      'error: outbox failed',
+      'after handler',
+    ]);
+  });
+
+  it('does not throw on errors without error listener', async () => {
+    const ctx = Context.background;
+    const con = new MockConn();
+    const txn = await SqlTxn.start(ctx, con);
+
+    (<SqlTxn>txn).onAfterCommit(() => {
+      throw new Error('outbox failed');
+    });
+
+    await expect(txn.commit()).resolves.toBe(undefined);
+  });
+
+  it('rejects commit if rolled back during before-commit handler', async () => {
+    const ctx = Context.background;
+    const con = new MockConn();
+    const txn = new SqlTxn(ctx, con);
+    await txn.start();
+
+    txn.onBeforeCommit(() => txn.rollback());
+
+    await expect(txn.commit()).rejects.toThrow('Transaction is already closed');
+    expect(con.commands.map((c) => c.sql)).toEqual([
+      'START TRANSACTION',
+      'ROLLBACK',
+    ]);
+  });
+
+  it('rejects concurrent commit', async () => {
+    const ctx = Context.background;
+    const con = new MockConn();
+    const txn = new SqlTxn(ctx, con);
+    await txn.start();
+
+    txn.onBeforeCommit(() => wait(5));
+
+    const pCommit = txn.commit();
+    await expect(txn.commit()).rejects.toThrow(
+      'Transaction is already committing'
+    );
+    await pCommit;
+  });
+});
+
+describe('state', () => {
+  it('is pending before start', () => {
+    const txn = new SqlTxn(Context.background, new MockConn());
+    expect(txn.state).toBe('pending');
+  });
+
+  it('is active after start', async () => {
+    const txn = new SqlTxn(Context.background, new MockConn());
+    await txn.start();
+    expect(txn.state).toBe('active');
+  });
+
+  it('is committed after commit', async () => {
+    const txn = new SqlTxn(Context.background, new MockConn());
+    await txn.start();
+    await txn.commit();
+    expect(txn.state).toBe('committed');
+  });
+
+  it('is rolledBack after rollback', async () => {
+    const txn = new SqlTxn(Context.background, new MockConn());
+    await txn.start();
+    await txn.rollback();
+    expect(txn.state).toBe('rolledBack');
+  });
+
+  it('is failed if start fails', async () => {
+    const txn = new SqlTxn(Context.background, new MockConn(), {
+      readOnly: true,
+    });
+    await expect(txn.start()).rejects.toThrow();
+    expect(SqlTxn.stats(txn)).toEqual({
+      state: 'failed',
+      err: new Error('Read only transactions not supported'),
+      timedOut: false,
+      committing: false,
+      nested: false,
+    });
+  });
+
+  it('is failed if commit fails', async () => {
+    const con = new MockConn();
+    const txn = new SqlTxn(Context.background, con);
+    await txn.start();
+    con.exec = () => Promise.reject('bork');
+
+    await expect(txn.commit()).rejects.toBe('bork');
+    expect(txn.state).toBe('failed');
+    expect(SqlTxn.stats(txn).err).toEqual(new Error('bork'));
+  });
+
+  it('provides outcome with complete', async () => {
+    const con = new MockConn();
+    const txn = new SqlTxn(Context.background, con);
+    await txn.start();
+
+    const outcomes: TxnOutcome[] = [];
+    txn.on('complete', (t: SqlTxn, outcome: TxnOutcome) => {
+      expect(t).toBe(txn);
+      outcomes.push(outcome);
+    });
+
+    con.exec = () => Promise.reject(new Error('rollback failed'));
+    await expect(txn.rollback()).rejects.toThrow('rollback failed');
+
+    expect(outcomes).toEqual([
+      { state: 'failed', err: new Error('rollback failed') },
+    ]);
+  });
+
+  it('provides cancel error in outcome', async () => {
+    const [ctx, cancel] = Context.cancel();
+    const txn = await SqlTxn.start(ctx, new MockConn());
+
+    const pOutcome = new Promise<TxnOutcome>((resolve) =>
+      (<SqlTxn>txn).on('complete', (_, outcome) => resolve(outcome))
+    );
+    cancel();
+    const outcome = await pOutcome;
+
+    expect(outcome.state).toBe('rolledBack');
+    expect(outcome.err?.message).toMatch('canceled');
+  });
+
+  it('provides timeout error in stats', async () => {
+    const txn = await SqlTxn.start(
+      Context.background,
+      new MockConn(),
+      undefined,
+      { timeout: 1 }
+    );
+
+    await wait(10);
+
+    const stats = SqlTxn.stats(txn);
+    expect(stats.state).toBe('rolledBack');
+    expect(stats.timedOut).toBe(true);
+    expect(stats.err).toBeInstanceOf(TxnTimeoutError);
+  });
+
+  it('reports open nested transaction in stats', async () => {
+    const ctx = Context.background;
+    const txn = await SqlTxn.start(ctx, new MockConn(), undefined, {
+      useSavepoints: true,
+    });
+    await (<Transactable<DbTxn>>(<unknown>txn)).beginTxn(ctx);
+
+    expect(SqlTxn.stats(txn).nested).toBe(true);
+  });
+
+  it('stats throws for non-SqlTxn', () => {
+    expect(() => SqlTxn.stats(<DbTxn>null!)).toThrow('not a SqlTxn');
+  });
+});
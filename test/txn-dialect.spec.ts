@@ -0,0 +1,179 @@
+// Copyright 2022 Joshua Honig. All rights reserved.
+// Use of this source code is governed by a MIT
+// license that can be found in the LICENSE file.
+
+import { Context } from '@sabl/context';
+import { IsolationLevel, TxnOptions } from '@sabl/txn';
+
+import { SqlTxn, SqlTxnConfig, SqlTxnDialect, sqliteTxnConfig } from '$';
+import { MockDriverConn } from './fixtures/mock-driver-conn';
+
+async function statements(
+  config: SqlTxnConfig,
+  opts: TxnOptions | undefined,
+  resolve: 'commit' | 'rollback'
+): Promise<string[]> {
+  const con = new MockDriverConn();
+  const txn = await SqlTxn.start(Context.background, con, opts, config);
+  await txn[resolve]();
+  return con.log
+    .filter((l) => l.startsWith('start '))
+    .map((l) => l.substring(6));
+}
+
+describe('postgres', () => {
+  const dialect = SqlTxnDialect.postgres;
+
+  it('sets isolation level and read only in start statement', async () => {
+    const stmts = await statements(
+      dialect,
+      { isolationLevel: IsolationLevel.repeatableRead, readOnly: true },
+      'commit'
+    );
+    expect(stmts).toEqual([
+      'START TRANSACTION ISOLATION LEVEL REPEATABLE READ READ ONLY',
+      'COMMIT',
+    ]);
+  });
+
+  it('rejects snapshot isolation', async () => {
+    await expect(
+      statements(dialect, { isolationLevel: IsolationLevel.snapshot }, 'commit')
+    ).rejects.toThrow('Unsupported isolation level');
+  });
+
+  it('supports savepoints', () => {
+    expect(dialect.useSavepoints).toBe(true);
+  });
+});
+
+describe('mysql', () => {
+  const dialect = SqlTxnDialect.mysql;
+
+  it('sets isolation level before start statement', async () => {
+    const stmts = await statements(
+      dialect,
+      { isolationLevel: IsolationLevel.serializable, readOnly: false },
+      'rollback'
+    );
+    expect(stmts).toEqual([
+      'SET TRANSACTION ISOLATION LEVEL SERIALIZABLE',
+      'START TRANSACTION READ WRITE',
+      'ROLLBACK',
+    ]);
+  });
+
+  it('rejects linearizable isolation', async () => {
+    await expect(
+      statements(
+        dialect,
+        { isolationLevel: IsolationLevel.linearizable },
+        'commit'
+      )
+    ).rejects.toThrow('Unsupported isolation level');
+  });
+});
+
+describe('sqlite', () => {
+  it('uses BEGIN DEFERRED by default', async () => {
+    const stmts = await statements(SqlTxnDialect.sqlite, undefined, 'commit');
+    expect(stmts).toEqual(['BEGIN DEFERRED', 'COMMIT']);
+  });
+
+  it('uses specified begin behavior', async () => {
+    const stmts = await statements(
+      sqliteTxnConfig('immediate'),
+      undefined,
+      'rollback'
+    );
+    expect(stmts).toEqual(['BEGIN IMMEDIATE', 'ROLLBACK']);
+
+    const stmts2 = await statements(
+      sqliteTxnConfig('exclusive'),
+      undefined,
+      'rollback'
+    );
+    expect(stmts2).toEqual(['BEGIN EXCLUSIVE', 'ROLLBACK']);
+  });
+
+  it('accepts serializable without a statement', async () => {
+    const stmts = await statements(
+      SqlTxnDialect.sqlite,
+      { isolationLevel: IsolationLevel.serializable },
+      'commit'
+    );
+    expect(stmts).toEqual(['BEGIN DEFERRED', 'COMMIT']);
+  });
+
+  it('rejects other isolation levels', async () => {
+    await expect(
+      statements(
+        SqlTxnDialect.sqlite,
+        { isolationLevel: IsolationLevel.readCommitted },
+        'commit'
+      )
+    ).rejects.toThrow('Unsupported isolation level');
+  });
+
+  it('rejects read only', async () => {
+    await expect(
+      statements(SqlTxnDialect.sqlite, { readOnly: true }, 'commit')
+    ).rejects.toThrow('Read only transactions not supported');
+  });
+});
+
+describe('sqlServer', () => {
+  const dialect = SqlTxnDialect.sqlServer;
+
+  it('uses TRANSACTION verbs', async () => {
+    const stmts = await statements(
+      dialect,
+      { isolationLevel: IsolationLevel.snapshot },
+      'commit'
+    );
+    expect(stmts).toEqual([
+      'SET TRANSACTION ISOLATION LEVEL SNAPSHOT',
+      'BEGIN TRANSACTION',
+      'COMMIT TRANSACTION',
+      'SET TRANSACTION ISOLATION LEVEL READ COMMITTED',
+    ]);
+  });
+
+  it('uses ROLLBACK TRANSACTION', async () => {
+    const stmts = await statements(dialect, undefined, 'rollback');
+    expect(stmts).toEqual(['BEGIN TRANSACTION', 'ROLLBACK TRANSACTION']);
+  });
+
+  it('resets isolation level after rollback', async () => {
+    const stmts = await statements(
+      dialect,
+      { isolationLevel: IsolationLevel.serializable },
+      'rollback'
+    );
+    expect(stmts).toEqual([
+      'SET TRANSACTION ISOLATION LEVEL SERIALIZABLE',
+      'BEGIN TRANSACTION',
+      'ROLLBACK TRANSACTION',
+      'SET TRANSACTION ISOLATION LEVEL READ COMMITTED',
+    ]);
+  });
+
+  it('does not reset read committed', async () => {
+    const stmts = await statements(
+      dialect,
+      { isolationLevel: IsolationLevel.readCommitted },
+      'commit'
+    );
+    expect(stmts).toEqual([
+      'SET TRANSACTION ISOLATION LEVEL READ COMMITTED',
+      'BEGIN TRANSACTION',
+      'COMMIT TRANSACTION',
+    ]);
+  });
+
+  it('rejects read only', async () => {
+    await expect(
+      statements(dialect, { readOnly: true }, 'commit')
+    ).rejects.toThrow('Read only transactions not supported');
+  });
+});
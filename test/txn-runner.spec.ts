@@ -0,0 +1,301 @@
+// Copyright 2022 Joshua Honig. All rights reserved.
+// Use of this source code is governed by a MIT
+// license that can be found in the LICENSE file.
+
+import { wait } from '@sabl/async';
+import { CanceledError, Context } from '@sabl/context';
+import { IsolationLevel } from '@sabl/txn';
+
+import { DriverTxn, runTxn, TxnTimeoutError } from '$';
+import { MockDriverConn } from './fixtures/mock-driver-conn';
+
+class SerializationError extends Error {
+  constructor() {
+    super('could not serialize access');
+  }
+}
+
+function isTransient(err: unknown): boolean {
+  return err instanceof SerializationError;
+}
+
+function statements(con: MockDriverConn): string[] {
+  return con.log
+    .filter((l) => l.startsWith('start '))
+    .map((l) => l.substring(6));
+}
+
+describe('runTxn', () => {
+  it('commits on success', async () => {
+    const ctx = Context.background;
+    const con = new MockDriverConn();
+
+    const result = await runTxn(ctx, con, async (txn) => {
+      await txn.exec(ctx, 'a');
+      return 11;
+    });
+
+    expect(result).toBe(11);
+    expect(statements(con)).toEqual(['START TRANSACTION', 'a', 'COMMIT']);
+  });
+
+  it('rolls back and rethrows on error', async () => {
+    const ctx = Context.background;
+    const con = new MockDriverConn();
+
+    await expect(
+      runTxn(ctx, con, async () => {
+        throw new Error('oops');
+      })
+    ).rejects.toThrow('oops');
+
+    expect(statements(con)).toEqual(['START TRANSACTION', 'ROLLBACK']);
+  });
+
+  it('does not commit or roll back again if fn already did', async () => {
+    const ctx = Context.background;
+    const con = new MockDriverConn();
+
+    await runTxn(ctx, con, (txn) => txn.rollback());
+
+    expect(statements(con)).toEqual(['START TRANSACTION', 'ROLLBACK']);
+  });
+
+  it('rejects if transaction times out while fn is running', async () => {
+    const ctx = Context.background;
+    const con = new MockDriverConn();
+
+    await expect(
+      runTxn(
+        ctx,
+        con,
+        async () => {
+          await wait(20);
+          return 11;
+        },
+        { config: { timeout: 5 } }
+      )
+    ).rejects.toThrow(TxnTimeoutError);
+
+    expect(statements(con)).toEqual(['START TRANSACTION', 'ROLLBACK']);
+  });
+
+  it('rejects if context is canceled while fn is running', async () => {
+    const [ctx, cancel] = Context.cancel();
+    const con = new MockDriverConn();
+
+    await expect(
+      runTxn(ctx, con, async () => {
+        cancel();
+        await wait(5);
+        return 11;
+      })
+    ).rejects.toThrow(CanceledError);
+
+    expect(statements(con)).toEqual(['START TRANSACTION', 'ROLLBACK']);
+  });
+
+  it('passes transaction options and config', async () => {
+    const ctx = Context.background;
+    const con = new MockDriverConn();
+
+    await runTxn(ctx, con, async () => null, {
+      txnOptions: { isolationLevel: IsolationLevel.serializable },
+      config: {
+        supportsIsolationLevel() {
+          return true;
+        },
+      },
+    });
+
+    expect(statements(con)).toEqual([
+      'SET TRANSACTION ISOLATION LEVEL SERIALIZABLE',
+      'START TRANSACTION',
+      'COMMIT',
+    ]);
+  });
+
+  it('retries transient errors', async () => {
+    const ctx = Context.background;
+    const con = new MockDriverConn();
+    let attempts = 0;
+    let completeCount = 0;
+
+    const result = await runTxn(
+      ctx,
+      con,
+      async (txn) => {
+        (<DriverTxn>txn).on('complete', () => completeCount++);
+        if (++attempts < 3) {
+          throw new SerializationError();
+        }
+        return 'ok';
+      },
+      { isTransient, backoff: () => 1 }
+    );
+
+    expect(result).toBe('ok');
+    expect(attempts).toBe(3);
+    expect(completeCount).toBe(3);
+    expect(statements(con)).toEqual([
+      'START TRANSACTION',
+      'ROLLBACK',
+      'START TRANSACTION',
+      'ROLLBACK',
+      'START TRANSACTION',
+      'COMMIT',
+    ]);
+  });
+
+  it('retries transient errors on commit', async () => {
+    const ctx = Context.background;
+    const con = new MockDriverConn();
+    const exec = con.exec.bind(con);
+    let commits = 0;
+    con.exec = async (ctx, sql, ...params) => {
+      if (sql === 'COMMIT' && ++commits === 1) {
+        throw new SerializationError();
+      }
+      return exec(ctx, sql, ...params);
+    };
+
+    await runTxn(ctx, con, async () => null, { isTransient, backoff: () => 0 });
+
+    expect(commits).toBe(2);
+    expect(statements(con)).toEqual([
+      'START TRANSACTION',
+      'START TRANSACTION',
+      'COMMIT',
+    ]);
+  });
+
+  it('does not retry non-transient errors', async () => {
+    const ctx = Context.background;
+    const con = new MockDriverConn();
+    let attempts = 0;
+
+    await expect(
+      runTxn(
+        ctx,
+        con,
+        async () => {
+          attempts++;
+          throw new Error('not transient');
+        },
+        { isTransient }
+      )
+    ).rejects.toThrow('not transient');
+
+    expect(attempts).toBe(1);
+  });
+
+  it('stops after maxAttempts', async () => {
+    const ctx = Context.background;
+    const con = new MockDriverConn();
+    const delays: number[] = [];
+    let attempts = 0;
+
+    await expect(
+      runTxn(
+        ctx,
+        con,
+        async () => {
+          attempts++;
+          throw new SerializationError();
+        },
+        {
+          isTransient,
+          maxAttempts: 4,
+          backoff(attempt) {
+            delays.push(attempt);
+            return 0;
+          },
+        }
+      )
+    ).rejects.toThrow(SerializationError);
+
+    expect(attempts).toBe(4);
+    expect(delays).toEqual([1, 2, 3]);
+  });
+
+  it('retries if start fails with transient error', async () => {
+    const ctx = Context.background;
+    const con = new MockDriverConn();
+    const exec = con.exec.bind(con);
+    let starts = 0;
+    con.exec = async (ctx, sql, ...params) => {
+      if (sql === 'START TRANSACTION' && ++starts === 1) {
+        throw new SerializationError();
+      }
+      return exec(ctx, sql, ...params);
+    };
+
+    const result = await runTxn(ctx, con, async () => 'ok', {
+      isTransient,
+      backoff: () => 0,
+    });
+
+    expect(result).toBe('ok');
+    expect(statements(con)).toEqual(['START TRANSACTION', 'COMMIT']);
+  });
+
+  it('does not retry after context is canceled', async () => {
+    const [ctx, cancel] = Context.cancel();
+    const con = new MockDriverConn();
+    let attempts = 0;
+    let delays = 0;
+
+    await expect(
+      runTxn(
+        ctx,
+        con,
+        async () => {
+          attempts++;
+          cancel();
+          throw new SerializationError();
+        },
+        {
+          isTransient,
+          backoff() {
+            delays++;
+            return 0;
+          },
+        }
+      )
+    ).rejects.toThrow(SerializationError);
+
+    expect(attempts).toBe(1);
+    expect(delays).toBe(0);
+  });
+
+  it('stops waiting for backoff when context is canceled', async () => {
+    const [ctx, cancel] = Context.cancel();
+    const con = new MockDriverConn();
+    let attempts = 0;
+
+    const start = Date.now();
+    const pRun = runTxn(
+      ctx,
+      con,
+      async () => {
+        attempts++;
+        throw new SerializationError();
+      },
+      { isTransient, backoff: () => 10000 }
+    );
+    setTimeout(cancel, 5);
+
+    await expect(pRun).rejects.toThrow(SerializationError);
+    expect(attempts).toBe(1);
+    expect(Date.now() - start).toBeLessThan(1000);
+  });
+
+  it('rejects invalid maxAttempts', async () => {
+    const ctx = Context.background;
+    const con = new MockDriverConn();
+
+    await expect(
+      runTxn(ctx, con, async () => null, { maxAttempts: 0 })
+    ).rejects.toThrow('maxAttempts must be at least 1');
+  });
+});
@@ -0,0 +1,97 @@
+// Copyright 2022 Joshua Honig. All rights reserved.
+// Use of this source code is governed by a MIT
+// license that can be found in the LICENSE file.
+
+import { combineConverters, findConverter, StandardConverters } from '$';
+
+describe('combineConverters', () => {
+  it('gives precedence to later registries', () => {
+    const a = () => 'a';
+    const b = () => 'b';
+    const c = () => 'c';
+    const combined = combineConverters(
+      { numeric: a, json: b },
+      null,
+      { numeric: c },
+      undefined
+    );
+
+    expect(combined).toEqual({ numeric: c, json: b });
+    expect(Object.isFrozen(combined)).toBe(true);
+  });
+});
+
+describe('findConverter', () => {
+  const fn = () => null;
+
+  it('matches type name exactly', () => {
+    const col = { name: 'a', typeName: 'NUMERIC', nullable: false };
+    expect(findConverter({ NUMERIC: fn }, col)).toBe(fn);
+  });
+
+  it('matches type name in lower case', () => {
+    const col = { name: 'a', typeName: 'NUMERIC', nullable: false };
+    expect(findConverter({ numeric: fn }, col)).toBe(fn);
+  });
+
+  it('returns null if not found', () => {
+    const col = { name: 'a', typeName: 'int', nullable: false };
+    expect(findConverter({ numeric: fn }, col)).toBe(null);
+  });
+});
+
+describe('StandardConverters', () => {
+  const {
+    string: toString,
+    bigint,
+    number,
+    date,
+    json,
+    boolean,
+  } = StandardConverters;
+
+  it('string', () => {
+    expect(toString(12.5)).toBe('12.5');
+    expect(toString(new Date(Date.UTC(2022, 0, 2)))).toBe(
+      '2022-01-02T00:00:00.000Z'
+    );
+  });
+
+  it('bigint', () => {
+    expect(bigint('12345678901234567890')).toBe(BigInt('12345678901234567890'));
+    expect(bigint(42)).toBe(BigInt(42));
+    expect(() => bigint('1.5')).toThrow();
+    expect(() => bigint(true)).toThrow('Cannot convert boolean to bigint');
+  });
+
+  it('number', () => {
+    expect(number('12.5')).toBe(12.5);
+    expect(number(BigInt(7))).toBe(7);
+    expect(() => number('abc')).toThrow('Cannot convert abc to number');
+  });
+
+  it('date', () => {
+    const d = new Date(Date.UTC(2022, 5, 3, 4, 5, 6));
+    expect(date(d)).toBe(d);
+    expect(date('2022-06-03T04:05:06Z')).toEqual(d);
+    expect(date(d.getTime())).toEqual(d);
+    expect(() => date('soon')).toThrow('Cannot convert soon to Date');
+  });
+
+  it('json', () => {
+    expect(json('{"a":[1,2]}')).toEqual({ a: [1, 2] });
+    expect(json(Buffer.from('[true]'))).toEqual([true]);
+    expect(json({ a: 1 })).toEqual({ a: 1 });
+    expect(() => json('{')).toThrow();
+  });
+
+  it('boolean', () => {
+    expect(boolean(1)).toBe(true);
+    expect(boolean(0)).toBe(false);
+    expect(boolean('t')).toBe(true);
+    expect(boolean('FALSE')).toBe(false);
+    expect(boolean(Buffer.from([1]))).toBe(true);
+    expect(boolean(Buffer.from([0]))).toBe(false);
+    expect(() => boolean('maybe')).toThrow('Cannot convert maybe to boolean');
+  });
+});